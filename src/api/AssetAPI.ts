@@ -0,0 +1,368 @@
+import { celebrate, Joi, Segments } from 'celebrate';
+import express, { Request, Response, Router } from 'express';
+import KnexDatabase from "../server/KnexDatabase";
+import { apiKeyMiddleware } from './apiKeyMiddleware';
+import {
+    deleteMediaAsset,
+    findMediaAsset,
+    formatMediaAsset,
+    initializeMediaAssetTable,
+    isMediaAssetInUse,
+    MediaAssetRecord,
+    storeMediaAsset
+} from './asset_library';
+import { decodeListCursor, encodeListCursor } from './list_cursor';
+import { fetchRemoteBuffer } from './remote_fetch';
+import { decodeBase64Data } from './SingleApi';
+
+
+const db = KnexDatabase;
+const router = Router();
+
+router.use(apiKeyMiddleware);
+
+// Tipos de contenido que se aceptan como archivo subido (cuerpo binario)
+const UPLOAD_CONTENT_TYPES = [
+    'application/octet-stream',
+    'video/*',
+    'audio/*',
+    'image/*',
+    'text/vtt',
+    'application/x-subrip'
+];
+
+const assetIdSchema = Joi.object({
+    id: Joi.string().pattern(/^[a-f0-9]{64}$/).required()
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MediaAsset:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: SHA-256 del contenido; se usa como `source.assetRef` en las composiciones.
+ *         filename:
+ *           type: string
+ *           nullable: true
+ *         content_type:
+ *           type: string
+ *           nullable: true
+ *         size:
+ *           type: integer
+ *         probe:
+ *           nullable: true
+ *           allOf:
+ *             - $ref: '#/components/schemas/MediaProbe'
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         updated_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/assets:
+ *   post:
+ *     tags: [/api/assets]
+ *     summary: Subir un archivo a la biblioteca de assets
+ *     description: >
+ *       Guarda un archivo multimedia (o de subtítulos) para reutilizarlo en varias composiciones con
+ *       `source.assetRef`. Se identifica por el SHA-256 de su contenido: si ya existe, no se vuelve a
+ *       guardar y se retorna el asset existente con 200. Se acepta un JSON con `url` o `data_base64`
+ *       (también como data URL), o el archivo como cuerpo binario con su nombre en `?filename=`.
+ *     parameters:
+ *       - in: query
+ *         name: filename
+ *         description: Nombre original del archivo subido como cuerpo binario.
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *               data_base64:
+ *                 type: string
+ *               filename:
+ *                 type: string
+ *         application/octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       201:
+ *         description: Asset guardado.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MediaAsset'
+ *       200:
+ *         description: El contenido ya estaba en la biblioteca.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MediaAsset'
+ *       400:
+ *         description: No se envió un archivo válido.
+ *       502:
+ *         description: No se pudo descargar la URL.
+ */
+router.post(
+    '/api/assets',
+    express.raw({ type: UPLOAD_CONTENT_TYPES, limit: '8gb' }),
+    celebrate({
+        [Segments.QUERY]: Joi.object({
+            filename: Joi.string().max(255)
+        }),
+        [Segments.BODY]: Joi.alternatives().try(
+            Joi.binary().min(1),
+            Joi.object({
+                url: Joi.string().uri({ scheme: ['http', 'https'] }),
+                data_base64: Joi.string(),
+                filename: Joi.string().max(255)
+            }).xor('url', 'data_base64')
+        )
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        let buffer: Buffer;
+        let filename: string | null = null;
+        let contentType: string | null = null;
+
+        if (Buffer.isBuffer(req.body)) {
+            buffer = req.body;
+            filename = (req.query.filename as string) ?? null;
+            contentType = req.header('Content-Type') ?? null;
+            console.log(`[POST /api/assets] Archivo subido (${buffer.length} bytes).`);
+        } else if (req.body.url) {
+            try {
+                console.log(`[POST /api/assets] Descargando URL: ${req.body.url}`);
+                ({ data: buffer, contentType } = await fetchRemoteBuffer(req.body.url));
+            } catch (error: any) {
+                console.error('[POST /api/assets] Error al descargar la URL:', error.message);
+                return res.status(502).json({
+                    status: 'error',
+                    message: 'No se pudo descargar la URL.',
+                    error: error.message
+                });
+            }
+            // Sin `filename` se usa el último segmento de la URL (para conservar su extensión)
+            filename = req.body.filename ?? (new URL(req.body.url).pathname.split('/').pop() || null);
+        } else {
+            buffer = decodeBase64Data(req.body.data_base64);
+            filename = req.body.filename ?? null;
+            contentType = /^data:([^;]+);base64,/.exec(req.body.data_base64)?.[1] ?? null;
+            console.log(`[POST /api/assets] Archivo en base64 (${buffer.length} bytes).`);
+        }
+
+        if (!buffer.length) {
+            return res.status(400).json({ status: 'error', message: 'El archivo está vacío.' });
+        }
+
+        try {
+            await initializeMediaAssetTable();
+            const { record, created } = await storeMediaAsset(buffer, { filename: filename || null, contentType });
+            res.status(created ? 201 : 200).json(formatMediaAsset(record));
+        } catch (error: any) {
+            console.error('[POST /api/assets] Error al guardar el asset:', error);
+            res.status(500).json({ error: 'Error interno al guardar el asset.' });
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /api/assets:
+ *   get:
+ *     tags: [/api/assets]
+ *     summary: Listar los assets de la biblioteca
+ *     description: >
+ *       Lista los assets del más reciente al más antiguo. La paginación es por cursor: para la
+ *       página siguiente se envía el `next_cursor` de la respuesta anterior.
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         description: Filtra por la familia del Content-Type.
+ *         schema:
+ *           type: string
+ *           enum: [video, audio, image, text]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Página de assets.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/MediaAsset'
+ *                 next_cursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Cursor inválido.
+ */
+router.get(
+    '/api/assets',
+    celebrate({
+        [Segments.QUERY]: Joi.object({
+            type: Joi.string().valid('video', 'audio', 'image', 'text'),
+            limit: Joi.number().integer().min(1).max(100).default(20),
+            cursor: Joi.string()
+        })
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { type, limit, cursor } = req.query as any;
+        try {
+            await initializeMediaAssetTable();
+
+            const query = db('media_assets')
+                .orderBy([{ column: 'created_at', order: 'desc' }, { column: 'id', order: 'desc' }])
+                .limit(limit + 1);
+
+            if (type) {
+                query.where('content_type', 'like', `${type}/%`);
+            }
+            if (cursor) {
+                const position = decodeListCursor(cursor);
+                if (!position) {
+                    return res.status(400).json({ error: 'El cursor de paginación no es válido.' });
+                }
+                const [createdAt, id] = position;
+                query.where((builder) => {
+                    builder
+                        .where('created_at', '<', createdAt)
+                        .orWhere((sameTime) => sameTime.where('created_at', '=', createdAt).andWhere('id', '<', id));
+                });
+            }
+
+            // Se pide un registro extra para saber si hay una página siguiente
+            const rows: MediaAssetRecord[] = await query;
+            const page = rows.slice(0, limit);
+
+            res.json({
+                items: page.map(formatMediaAsset),
+                next_cursor: rows.length > limit ? encodeListCursor(page[page.length - 1]) : null
+            });
+        } catch (error: any) {
+            console.error('[GET /api/assets] Error al listar los assets:', error);
+            res.status(500).json({ error: 'Error interno al listar los assets.' });
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /api/assets/{id}:
+ *   get:
+ *     tags: [/api/assets]
+ *     summary: Consultar un asset de la biblioteca
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Metadata del asset.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MediaAsset'
+ *       404:
+ *         description: El asset no existe.
+ */
+router.get(
+    '/api/assets/:id',
+    celebrate({
+        [Segments.PARAMS]: assetIdSchema
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        try {
+            await initializeMediaAssetTable();
+            const record = await findMediaAsset(req.params.id);
+            if (!record) {
+                return res.status(404).json({ error: 'Asset no encontrado.' });
+            }
+            res.json(formatMediaAsset(record));
+        } catch (error: any) {
+            console.error('[GET /api/assets/:id] Error al consultar el asset:', error);
+            res.status(500).json({ error: 'Error interno al consultar el asset.' });
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /api/assets/{id}:
+ *   delete:
+ *     tags: [/api/assets]
+ *     summary: Eliminar un asset de la biblioteca
+ *     description: >
+ *       Elimina el archivo y su registro. No se permite mientras una composición encolada o en
+ *       proceso lo use.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Asset eliminado.
+ *       404:
+ *         description: El asset no existe.
+ *       409:
+ *         description: Una composición pendiente usa el asset.
+ */
+router.delete(
+    '/api/assets/:id',
+    celebrate({
+        [Segments.PARAMS]: assetIdSchema
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { id } = req.params;
+        try {
+            await initializeMediaAssetTable();
+            const record = await findMediaAsset(id);
+            if (!record) {
+                return res.status(404).json({ error: 'Asset no encontrado.' });
+            }
+            if (await isMediaAssetInUse(id)) {
+                return res.status(409).json({ error: 'El asset está en uso por una composición encolada o en proceso.' });
+            }
+
+            await deleteMediaAsset(record);
+            res.json({ id, deleted: true });
+        } catch (error: any) {
+            console.error(`[DELETE /api/assets/${id}] Error al eliminar el asset:`, error);
+            res.status(500).json({ error: 'Error interno al eliminar el asset.' });
+        }
+    }
+);
+
+export const api_router_assets = router;
+export default router;
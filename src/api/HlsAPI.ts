@@ -0,0 +1,105 @@
+import { celebrate, Joi, Segments } from 'celebrate';
+import { Request, Response, Router } from 'express';
+import fs from 'fs';
+import path from 'path';
+import KnexDatabase from "../server/KnexDatabase";
+import { CompositionHls, getHlsContentType, resolveHlsFile, verifyHlsSignature } from './video_hls';
+
+
+const db = KnexDatabase;
+
+// Sin apiKeyMiddleware: el acceso se autoriza con la firma de la ruta (ver GET /api/videos/{id}/hls),
+// porque los reproductores HLS no envían la cabecera Authorization en cada segmento
+const router = Router();
+
+/**
+ * @swagger
+ * /api/hls/{id}/{expires}/{signature}/{file}:
+ *   get:
+ *     tags: [/api/video]
+ *     summary: Descargar el master, una playlist o un segmento HLS (URL firmada)
+ *     description: >
+ *       Ruta pública para reproductores HLS. La URL del master se obtiene con
+ *       GET /api/videos/{id}/hls; las playlists de cada variante (`720p/playlist.m3u8`) y sus
+ *       segmentos se piden con rutas relativas a ella.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: expires
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: signature
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: file
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: master.m3u8
+ *     responses:
+ *       200:
+ *         description: Playlist (application/vnd.apple.mpegurl) o segmento (video/mp2t).
+ *       403:
+ *         description: La firma no es válida o ya venció.
+ *       404:
+ *         description: El archivo no existe.
+ *       410:
+ *         description: El video expiró y su empaquetado HLS fue eliminado.
+ */
+router.get(
+    '/api/hls/:id/:expires/:signature/*',
+    celebrate({
+        [Segments.PARAMS]: Joi.object({
+            id: Joi.string().required(),
+            expires: Joi.number().integer().required(),
+            signature: Joi.string().required(),
+            0: Joi.string().required()
+        })
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { id, signature } = req.params;
+        const expires = Number(req.params.expires);
+        try {
+            if (!verifyHlsSignature(id, expires, signature)) {
+                return res.status(403).json({ error: 'La URL no es válida o ya venció.' });
+            }
+
+            const file = resolveHlsFile(req.params[0]);
+            if (!file) {
+                return res.status(404).json({ error: 'Archivo no encontrado.' });
+            }
+
+            const composition = await db('video_compositions').where({ id }).first();
+            const hls: CompositionHls | null = JSON.parse(composition?.hls || 'null');
+            if (!hls) {
+                return res.status(410).json({ error: 'El video de esta composición expiró y fue eliminado.' });
+            }
+
+            const filePath = path.join(hls.folder, file);
+            if (!fs.existsSync(filePath)) {
+                return res.status(404).json({ error: 'Archivo no encontrado.' });
+            }
+
+            res.sendFile(filePath, { headers: { 'Content-Type': getHlsContentType(file) } }, (error: any) => {
+                if (error && !res.headersSent) {
+                    console.error(`[GET /api/hls] Error al enviar ${file} (ID: ${id}):`, error);
+                    res.status(error.status || 500).json({ error: 'No se pudo enviar el archivo.' });
+                }
+            });
+        } catch (error: any) {
+            console.error(`[GET /api/hls] Error al servir el HLS (ID: ${id}):`, error);
+            res.status(500).json({ error: 'Error interno al servir el HLS.' });
+        }
+    }
+);
+
+export const api_router_hls = router;
+export default router;
@@ -0,0 +1,158 @@
+import { celebrate, Joi, Segments } from 'celebrate';
+import express, { Request, Response, Router } from 'express';
+import { apiKeyMiddleware } from './apiKeyMiddleware';
+import { probeBuffer, probeMediaSource } from './media_probe';
+
+
+const router = Router();
+
+router.use(apiKeyMiddleware);
+
+// Tipos de contenido que se aceptan como archivo subido (cuerpo binario)
+const UPLOAD_CONTENT_TYPES = ['application/octet-stream', 'video/*', 'audio/*', 'image/*'];
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     MediaProbe:
+ *       type: object
+ *       properties:
+ *         format:
+ *           type: string
+ *           example: mov,mp4,m4a,3gp,3g2,mj2
+ *         duration:
+ *           type: number
+ *           nullable: true
+ *           description: Duración en segundos.
+ *         duration_ms:
+ *           type: number
+ *           nullable: true
+ *           description: Duración en milisegundos (la unidad de `aspecs.duration`).
+ *         size:
+ *           type: number
+ *           nullable: true
+ *         bit_rate:
+ *           type: number
+ *           nullable: true
+ *         video:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             codec:
+ *               type: string
+ *             width:
+ *               type: number
+ *             height:
+ *               type: number
+ *             fps:
+ *               type: number
+ *             rotation:
+ *               type: number
+ *               description: Grados de rotación con que debe mostrarse el video.
+ *             pix_fmt:
+ *               type: string
+ *         audio:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             codec:
+ *               type: string
+ *             channels:
+ *               type: number
+ *             channel_layout:
+ *               type: string
+ *             sample_rate:
+ *               type: number
+ *         streams:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               index:
+ *                 type: number
+ *               type:
+ *                 type: string
+ *               codec:
+ *                 type: string
+ */
+
+/**
+ * @swagger
+ * /api/media/probe:
+ *   post:
+ *     tags: [/api/media]
+ *     summary: Analizar un archivo multimedia con ffprobe
+ *     description: >
+ *       Retorna la metadata normalizada (duración, códecs, resolución, frame rate, rotación y
+ *       canales de audio) de un archivo. Se acepta un JSON con `url` o `data_base64` (también
+ *       como data URL), o el archivo subido directamente como cuerpo binario. Las URLs se
+ *       descargan con los mismos límites y la misma caché que los orígenes de las composiciones.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *               data_base64:
+ *                 type: string
+ *         application/octet-stream:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       200:
+ *         description: Metadata del archivo.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MediaProbe'
+ *       400:
+ *         description: No se envió un archivo válido.
+ *       422:
+ *         description: ffprobe no pudo analizar el archivo.
+ */
+router.post(
+    '/api/media/probe',
+    express.raw({ type: UPLOAD_CONTENT_TYPES, limit: '8gb' }),
+    celebrate({
+        [Segments.BODY]: Joi.alternatives().try(
+            Joi.binary().min(1),
+            Joi.object({
+                url: Joi.string().uri({ scheme: ['http', 'https'] }),
+                data_base64: Joi.string()
+            }).xor('url', 'data_base64')
+        )
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        try {
+            let probe;
+            if (Buffer.isBuffer(req.body)) {
+                console.log(`[POST /api/media/probe] Analizando archivo subido (${req.body.length} bytes).`);
+                probe = await probeBuffer(req.body);
+            } else if (req.body.url) {
+                console.log(`[POST /api/media/probe] Analizando URL: ${req.body.url}`);
+                probe = await probeMediaSource({ url: req.body.url });
+            } else {
+                console.log('[POST /api/media/probe] Analizando archivo en base64.');
+                probe = await probeMediaSource({ data_base64: req.body.data_base64 });
+            }
+
+            res.json(probe);
+        } catch (error: any) {
+            console.error('[POST /api/media/probe] Error al analizar el archivo:', error);
+            res.status(422).json({
+                status: 'error',
+                message: 'No se pudo analizar el archivo con ffprobe.',
+                error: error.message
+            });
+        }
+    }
+);
+
+export const api_router_media = router;
+export default router;
@@ -47,7 +47,7 @@ async function cleanupTempDir(tempDir: string) {
 /**
  * Decodifica la cadena base64 eliminando un posible prefijo tipo "data:tipo/formato;base64,"
  */
-function decodeBase64Data(base64Data: string): Buffer {
+export function decodeBase64Data(base64Data: string): Buffer {
   const commaIndex = base64Data.indexOf(',');
   if (commaIndex !== -1) {
     return Buffer.from(base64Data.slice(commaIndex + 1), 'base64');
@@ -59,7 +59,7 @@ function decodeBase64Data(base64Data: string): Buffer {
  * Detecta la extensión del archivo a partir del prefijo data URL.
  * Si no se encuentra, retorna la extensión por defecto indicada.
  */
-function getFileExtension(base64Data: string, defaultExt: string): string {
+export function getFileExtension(base64Data: string, defaultExt: string): string {
   const regex = /^data:(.+?)\/(.+?);base64,/;
   const match = base64Data.match(regex);
   if (match && match[2]) {
@@ -68,9 +68,21 @@ function getFileExtension(base64Data: string, defaultExt: string): string {
     if (['mp4', 'webm', 'mkv'].includes(ext)) {
       return `.${ext}`;
     }
+    if (ext === 'quicktime') {
+      return '.mov';
+    }
     if (['mpeg', 'mp3'].includes(ext)) {
       return '.mp3';
     }
+    if (['wav', 'ogg'].includes(ext)) {
+      return `.${ext}`;
+    }
+    if (['png', 'gif', 'webp'].includes(ext)) {
+      return `.${ext}`;
+    }
+    if (['jpeg', 'jpg'].includes(ext)) {
+      return '.jpg';
+    }
   }
   return defaultExt;
 }
@@ -6,9 +6,54 @@ import ffmpegStatic from 'ffmpeg-static';
 import ffmpeg from 'fluent-ffmpeg';
 import fs from 'fs';
 import Joi from 'joi';
+import { Knex } from 'knex';
 import path from 'path';
 import KnexDatabase from '../server/KnexDatabase';
 import { apiKeyMiddleware } from './apiKeyMiddleware';
+import {
+    buildComposeGraph,
+    ConcatCompositionData,
+    describeMediaSource,
+    PreviewSettings,
+    resolvePreviewSettings,
+    transformToConcatClips
+} from './video_compose_graph';
+import {
+    CompositionProgress,
+    emitCompositionEvent,
+    FINAL_COMPOSITION_STATUSES,
+    subscribeToComposition
+} from './video_composition_events';
+import { decodeListCursor, encodeListCursor } from './list_cursor';
+import { applyMediaProbe, detectClipAudio } from './media_probe';
+import { resolveAssetRefs } from './asset_library';
+import { FFMPEG_COLOR_PATTERN, FONT_NAME_PATTERN } from './video_fonts';
+import {
+    CompositionPreviews,
+    generateCompositionPreviews,
+    listPreviewFiles,
+    PreviewOptions
+} from './video_previews';
+import {
+    AUDIO_CODEC_NAMES,
+    ENCODER_PRESET_NAMES,
+    ENCODING_PRESET_NAMES,
+    validateEncodingSupport,
+    VIDEO_CODEC_NAMES
+} from './video_encoding';
+import {
+    buildHlsPackageCommand,
+    CompositionHls,
+    getHlsFolder,
+    HlsSettings,
+    removeCompositionHls,
+    resolveHlsSettings,
+    signHlsAccess
+} from './video_hls';
+import { AUDIO_OUTPUT_FORMATS, getOutputContentType, OUTPUT_FORMAT_NAMES, OUTPUT_FORMATS } from './video_output_formats';
+import { loadSubtitleFonts, loadSubtitleSources } from './video_subtitles';
+import { assertCallbackUrlAllowed, fetchCompositionSources } from './remote_fetch';
+import { hashApiKey, notifyCompositionFinished } from './video_webhooks';
 
 ffmpeg.setFfmpegPath(ffmpegStatic);
 
@@ -17,6 +62,50 @@ const router = Router();
 
 router.use(apiKeyMiddleware);
 
+/**
+ * Columnas agregadas a "video_compositions" después de su primera versión.
+ * Se crean al vuelo si no existen, para que las bases de datos ya desplegadas
+ * no requieran migraciones manuales.
+ */
+const videoCompositionExtraColumns: Record<string, (table: Knex.AlterTableBuilder) => void> = {
+    // JSON de composición validado; lo consume el worker de la cola
+    payload: (table) => {
+        table.json('payload').nullable();
+    },
+    // Webhook de finalización (ver video_webhooks.ts)
+    callback_url: (table) => {
+        table.string('callback_url').nullable();
+    },
+    api_key_hash: (table) => {
+        table.string('api_key_hash').nullable();
+    },
+    webhook_status: (table) => {
+        table.string('webhook_status').nullable();
+    },
+    webhook_attempts: (table) => {
+        table.json('webhook_attempts').nullable();
+    },
+    // Último avance reportado por ffmpeg (ver CompositionProgress)
+    progress: (table) => {
+        table.json('progress').nullable();
+    },
+    // "final" o "preview" (render de previsualización, ver la opción `preview`)
+    render_mode: (table) => {
+        table.string('render_mode').notNullable().defaultTo('final');
+    },
+    // Poster, miniaturas y sprite del video (ver CompositionPreviews); expiran con el video
+    previews: (table) => {
+        table.json('previews').nullable();
+    },
+    // Empaquetado HLS (ver CompositionHls); expira con el video
+    hls: (table) => {
+        table.json('hls').nullable();
+    }
+};
+
+// Inicialización en curso o terminada; la comparten todas las llamadas (ver initializeVideoCompositionTable)
+let videoCompositionTableReady: Promise<void> | null = null;
+
 /**
  * Inicializa la tabla "video_compositions" si no existe.
  * 
@@ -24,8 +113,21 @@ router.use(apiKeyMiddleware);
  *   por lo tanto, en caso de error, no se puede registrar en "steps" de la BD.
  * - Sin embargo, sí registramos logs y lanzamos la excepción para que sea manejada
  *   posteriormente (p.ej., en la ruta que la invoque).
+ * - Al arrancar la llaman a la vez la cola y el programador de limpieza: todas las llamadas
+ *   reutilizan la misma promesa, para no crear la tabla o sus columnas dos veces. Si falla,
+ *   la siguiente llamada lo vuelve a intentar.
  */
-export async function initializeVideoCompositionTable(): Promise<void> {
+export function initializeVideoCompositionTable(): Promise<void> {
+    if (!videoCompositionTableReady) {
+        videoCompositionTableReady = createVideoCompositionTable().catch((error) => {
+            videoCompositionTableReady = null;
+            throw error;
+        });
+    }
+    return videoCompositionTableReady;
+}
+
+async function createVideoCompositionTable(): Promise<void> {
     try {
         const exists = await db.schema.hasTable('video_compositions');
         if (!exists) {
@@ -41,6 +143,13 @@ export async function initializeVideoCompositionTable(): Promise<void> {
             });
             console.log('[DB] Tabla "video_compositions" creada con éxito.');
         }
+
+        for (const [column, addColumn] of Object.entries(videoCompositionExtraColumns)) {
+            if (!(await db.schema.hasColumn('video_compositions', column))) {
+                console.log(`[DB] Agregando columna "${column}" a "video_compositions"...`);
+                await db.schema.alterTable('video_compositions', (table) => addColumn(table));
+            }
+        }
     } catch (error) {
         console.error('[DB] Error al inicializar la tabla "video_compositions":', error);
         throw error; // se re-lanza el error para que lo maneje quien llame a esta función
@@ -56,12 +165,18 @@ async function createVideoCompositionRecord(record: {
     status: string;
     steps?: string[];
     folder_path: string;
+    payload?: any;
+    callback_url?: string;
+    api_key_hash?: string;
+    webhook_status?: string;
+    render_mode?: string;
 }): Promise<string[]> {
     try {
         const steps = record.steps || [];
         await db('video_compositions').insert({
             ...record,
-            steps: JSON.stringify(steps)
+            steps: JSON.stringify(steps),
+            payload: record.payload ? JSON.stringify(record.payload) : null
         });
         console.log(`[DB] Registro de composición creado. ID: ${record.id}, status: ${record.status}`);
         return steps;
@@ -91,16 +206,21 @@ async function getCurrentSteps(id: string): Promise<string[]> {
 /**
  * Actualiza el registro del proceso de composición.
  * - `updates.steps`: si se provee, se convertirá a JSON tras recuperar los steps actuales.
+ * - `expectedStatus`: si se provee, solo se actualiza si la composición sigue en ese estado
+ *   (p.ej. para no pisar una cancelación que llegó mientras tanto).
+ * Retorna false si el registro no se actualizó.
  */
-async function updateVideoCompositionProgress(
+export async function updateVideoCompositionProgress(
     id: string,
     updates: Partial<{
         status: string;
         steps: string[];
         video_path: string;
         expiration_time: Date;
-    }>
-): Promise<void> {
+        hls: string;
+    }>,
+    expectedStatus?: string
+): Promise<boolean> {
     try {
         const currentSteps = await getCurrentSteps(id);
         let mergedSteps = currentSteps;
@@ -115,35 +235,289 @@ async function updateVideoCompositionProgress(
             updated_at: db.fn.now()
         };
 
-        await db('video_compositions').where({ id }).update(updateData);
+        const updated = await db('video_compositions')
+            .where({ id, ...(expectedStatus ? { status: expectedStatus } : {}) })
+            .update(updateData);
+        if (!updated) {
+            console.warn(`[DB] La composición ID: ${id} no se actualizó (no existe o ya no está "${expectedStatus}").`);
+            return false;
+        }
         console.log(`[DB] Registro de composición actualizado. ID: ${id}, Updates:`, updates);
+
+        if (updates.steps?.length || updates.status) {
+            emitCompositionEvent({ type: 'step', id, steps: updates.steps ?? [], status: updates.status });
+        }
+        return true;
     } catch (error) {
         console.error('[DB] Error al actualizar registro de composición:', error);
         throw error;
     }
 }
 
+/**
+ * Guarda el avance del render en la composición. No modifica "steps" ni "updated_at",
+ * para que el avance no se confunda con un cambio de estado.
+ */
+async function saveCompositionProgress(id: string, progress: CompositionProgress): Promise<void> {
+    try {
+        await db('video_compositions').where({ id }).update({ progress: JSON.stringify(progress) });
+    } catch (error) {
+        console.error(`[DB] Error al guardar el avance de la composición ID: ${id}`, error);
+    }
+}
+
+/**
+ * Tamaño en bytes del video de la composición, o null si no existe (p.ej. ya expiró).
+ */
+function getOutputSize(videoPath: string | null): number | null {
+    if (!videoPath) {
+        return null;
+    }
+    try {
+        return fs.statSync(videoPath).size;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * URLs de descarga de las imágenes de una composición, o null si no se generaron.
+ */
+function getPreviewUrls(composition: any) {
+    const previews: CompositionPreviews | null = JSON.parse(composition.previews || 'null');
+    if (!previews) {
+        return null;
+    }
+    const url = (file: string) => `/api/videos/${composition.id}/previews/${file}`;
+    return {
+        poster_url: previews.poster ? url(previews.poster) : null,
+        thumbnail_urls: previews.thumbnails.map(url),
+        sprite_url: previews.sprite ? url(previews.sprite.image) : null,
+        sprite_vtt_url: previews.sprite ? url(previews.sprite.vtt) : null
+    };
+}
+
+// Comandos ffmpeg en ejecución, por ID de composición, para poder cancelarlos
+const runningCommands = new Map<string, ffmpeg.FfmpegCommand>();
+// Descargas de orígenes remotos en curso, por ID de composición, para poder abortarlas al cancelar
+const runningDownloads = new Map<string, AbortController>();
+// Composiciones "in_progress" cuya cancelación se pidió; el worker las detiene y limpia
+const cancelRequests = new Set<string>();
+
+/**
+ * Elimina la carpeta de trabajo de una composición (assets decodificados, textos, etc.).
+ */
+function removeCompositionFolder(folderPath: string): void {
+    try {
+        fs.rmSync(folderPath, { recursive: true, force: true });
+        console.log(`[DB] Carpeta de la composición eliminada: ${folderPath}`);
+    } catch (error) {
+        console.error(`[DB] Error al eliminar la carpeta de la composición ${folderPath}:`, error);
+    }
+}
+
+/**
+ * Cancela una composición "queued" o "in_progress" y registra `step`.
+ * - queued: se marca "cancelled" y se elimina su carpeta; ningún worker llegó a tomarla.
+ * - in_progress: se marca "cancelled", se abortan las descargas en curso y se mata ffmpeg; el
+ *   worker elimina la salida parcial y la carpeta cuando el proceso termina (ver runVideoComposition).
+ * Retorna el estado en que estaba la composición y si se canceló.
+ */
+export async function cancelVideoComposition(
+    id: string,
+    step = 'composition_cancelled'
+): Promise<{ cancelled: boolean; previousStatus: string | null }> {
+    const composition = await db('video_compositions').where({ id }).first();
+    if (!composition) {
+        return { cancelled: false, previousStatus: null };
+    }
+
+    // Los UPDATE condicionados evitan competir con el worker que reclama la composición
+    const cancelledQueued = await db('video_compositions')
+        .where({ id, status: 'queued' })
+        .update({ status: 'cancelled', updated_at: db.fn.now() });
+
+    if (cancelledQueued) {
+        await updateVideoCompositionProgress(id, { status: 'cancelled', steps: [step] });
+        removeCompositionFolder(composition.folder_path);
+        void notifyCompositionFinished(id).catch((error) => {
+            console.error(`[cancelVideoComposition] Error al notificar el webhook (ID: ${id}):`, error);
+        });
+        return { cancelled: true, previousStatus: 'queued' };
+    }
+
+    cancelRequests.add(id);
+    const cancelledRunning = await db('video_compositions')
+        .where({ id, status: 'in_progress' })
+        .update({ status: 'cancelled', updated_at: db.fn.now() });
+
+    if (!cancelledRunning) {
+        cancelRequests.delete(id);
+        return { cancelled: false, previousStatus: composition.status };
+    }
+
+    await updateVideoCompositionProgress(id, { status: 'cancelled', steps: [step] });
+    runningDownloads.get(id)?.abort();
+    runningCommands.get(id)?.kill('SIGKILL');
+    console.log(`[cancelVideoComposition] Composición cancelada mientras se renderizaba (ID: ${id}).`);
+    return { cancelled: true, previousStatus: 'in_progress' };
+}
+
+/**
+ * Convierte el "timemark" de ffmpeg (HH:MM:SS.xx) a segundos. Retorna 0 si no es válido.
+ */
+function timemarkToSeconds(timemark: string): number {
+    const match = /^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(timemark || '');
+    if (!match) {
+        return 0;
+    }
+    return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/**
+ * Transición de entrada/salida de un asset (o de su override en el timeline).
+ * - duration: en milisegundos (por defecto 500).
+ * - direction: solo aplica a "slide"; dirección hacia donde se desplaza la imagen.
+ */
+const transitionSchema = Joi.object({
+    type: Joi.string().valid('fade', 'slide').optional(),
+    duration: Joi.number().positive().optional(),
+    direction: Joi.string().valid('left', 'right', 'up', 'down').default('left')
+});
+
+/**
+ * Modo de ajuste de una entrada a su caja (el lienzo o `aspecs.resolution`).
+ */
+const fitSchema = Joi.string().valid('contain', 'cover', 'stretch');
+
+// Nombre de familia o archivo de la carpeta de fuentes (ver FONT_NAME_PATTERN)
+const fontSchema = Joi.string().pattern(FONT_NAME_PATTERN);
+
+// Color de ffmpeg: nombre o hexadecimal, con opacidad opcional (ver FFMPEG_COLOR_PATTERN)
+const colorSchema = Joi.string().pattern(FFMPEG_COLOR_PATTERN);
+
+// Factor de velocidad de videos y audios (<1 cámara lenta, >1 cámara rápida)
+const speedSchema = Joi.number().min(0.1).max(10);
+
+// Cualquier texto, como antes de los presets: los valores que no son un preset (ANIMATION_PRESETS)
+// se ignoran con una advertencia en transformToConcatClips
+const animationSchema = Joi.string();
+
+// Keyframe de un elemento del timeline; `time` en ms desde el inicio del elemento
+const keyframeSchema = Joi.object({
+    time: Joi.number().min(0).required(),
+    x: Joi.number(),
+    y: Joi.number(),
+    scale: Joi.number().min(0),
+    opacity: Joi.number().min(0).max(1),
+    rotation: Joi.number(),
+    easing: Joi.string().valid('linear', 'ease-in', 'ease-out', 'ease-in-out').default('linear')
+}).or('x', 'y', 'scale', 'opacity', 'rotation');
+
 /**
  * Esquema de validación para la nueva estructura de composición de video.
  * Recibe:
+ *  - callbackUrl: URL opcional que recibe el resultado al terminar (webhook firmado)
+ *  - hls: empaquetado HLS opcional del video final (true o { renditions, segmentDuration })
  *  - assets[]: { id, type, source, aspecs... }
- *  - timeline[]: { assetId, startTime, override... }
- *  - globalSettings: { resolution, outputFormat }
+ *  - timeline[]: { assetId, startTime, layer, override... } (el override tiene prioridad sobre el asset)
+ *  - globalSettings: { resolution, fit, fps, backgroundColor, outputFormat, animatedImage, encoding }
+ */
+const previewSchema = Joi.alternatives().try(
+    Joi.boolean(),
+    Joi.object({
+        height: Joi.number().integer().min(72).max(1080).default(360),
+        fps: Joi.number().positive().max(60).default(15),
+        range: Joi.object({
+            start: Joi.number().min(0).default(0),
+            end: Joi.number().greater(Joi.ref('start')).optional()
+        }).optional()
+    })
+);
+
+/**
+ * Empaquetado HLS del video final. Los bitrates están en kbps; sin `renditions` se usa la
+ * escalera 1080p/720p/480p (ver resolveHlsSettings).
+ */
+const hlsSchema = Joi.alternatives().try(
+    Joi.boolean(),
+    Joi.object({
+        renditions: Joi.array()
+            .items(
+                Joi.object({
+                    height: Joi.number().integer().min(144).max(2160).required(),
+                    videoBitrate: Joi.number().integer().min(100).max(50000).optional(),
+                    audioBitrate: Joi.number().integer().min(32).max(320).optional()
+                })
+            )
+            .min(1)
+            .max(6)
+            .unique('height')
+            .optional(),
+        segmentDuration: Joi.number().min(1).max(30).default(6)
+    })
+);
+
+/**
+ * Codificación de la salida (`globalSettings.encoding`). Los bitrates están en kbps y `gop` en
+ * frames. La compatibilidad con el formato y el códec se valida en resolveEncodingSettings y la
+ * del binario de ffmpeg en validateEncodingSupport.
+ */
+const encodingSchema = Joi.object({
+    preset: Joi.string().valid(...ENCODING_PRESET_NAMES).optional(),
+    videoCodec: Joi.string().valid(...VIDEO_CODEC_NAMES).optional(),
+    crf: Joi.number().integer().min(0).max(63).optional(),
+    videoBitrate: Joi.number().integer().min(100).max(200000).optional(),
+    encoderPreset: Joi.string().valid(...ENCODER_PRESET_NAMES).optional(),
+    pixelFormat: Joi.string().pattern(/^[a-z0-9_]+$/).optional(),
+    gop: Joi.number().integer().min(1).max(1000).optional(),
+    audioCodec: Joi.string().valid(...AUDIO_CODEC_NAMES).optional(),
+    audioBitrate: Joi.number().integer().min(32).max(512).optional(),
+    audioSampleRate: Joi.number().valid(8000, 11025, 12000, 16000, 22050, 24000, 32000, 44100, 48000, 88200, 96000).optional(),
+    faststart: Joi.boolean().optional()
+}).oxor('crf', 'videoBitrate');
+
+/**
+ * Opciones de un asset "subtitle" (`aspecs.subtitle`). La fuente, el tamaño y el color del texto
+ * se toman de `aspecs.font`, `aspecs.fontSize` y `aspecs.color`; los tamaños están en px del lienzo.
+ * - mode: "burn" dibuja los subtítulos sobre el video; "soft" los agrega como pista seleccionable.
+ * - language: código ISO 639-2 de la pista "soft".
  */
+const subtitleOptionsSchema = Joi.object({
+    mode: Joi.string().valid('burn', 'soft').default('burn'),
+    language: Joi.string().pattern(/^[a-z]{3}$/).optional(),
+    outlineColor: Joi.string().optional(),
+    outline: Joi.number().min(0).optional(),
+    backgroundColor: Joi.string().optional(),
+    position: Joi.string().valid('bottom', 'middle', 'top').default('bottom'),
+    margin: Joi.number().min(0).optional()
+});
+
 const videoCompositionSchema = Joi.object({
+    callbackUrl: Joi.string().uri({ scheme: ['http', 'https'] }).optional(),
+    preview: previewSchema.default(false),
+    hls: hlsSchema.default(false),
     assets: Joi.array()
         .items(
             Joi.object({
                 id: Joi.string().required(),
-                type: Joi.string().valid('video', 'audio', 'text', 'image').required(),
+                type: Joi.string().valid('video', 'audio', 'text', 'image', 'subtitle').required(),
                 source: Joi.object({
-                    url: Joi.string().uri().optional(),
+                    url: Joi.string().uri({ scheme: ['http', 'https'] }).optional(),
                     data_base64: Joi.string().optional(),
-                    content: Joi.string().optional()
-                }).required(),
+                    content: Joi.string().optional(),
+                    // SHA-256 de un asset de la biblioteca (ver POST /api/assets)
+                    assetRef: Joi.string().pattern(/^[a-f0-9]{64}$/).optional()
+                }).or('url', 'data_base64', 'content', 'assetRef').required(),
                 aspecs: Joi.object({
-                    startTrim: Joi.number().default(0),
-                    duration: Joi.number().required(),
+                    startTrim: Joi.number().min(0).default(0),
+                    // Con globalSettings.probe la duración de videos y audios se obtiene con ffprobe, y
+                    // con `source.assetRef` del probe guardado en la biblioteca; los subtítulos sin
+                    // duración se muestran hasta el final de la composición
+                    duration: Joi.number()
+                        .when('/globalSettings.probe', { is: true, then: Joi.optional(), otherwise: Joi.required() })
+                        .when('...source.assetRef', { is: Joi.exist(), then: Joi.optional() })
+                        .when('...type', { is: 'subtitle', then: Joi.optional() }),
                     resolution: Joi.object({
                         width: Joi.number().required(),
                         height: Joi.number().required()
@@ -152,22 +526,18 @@ const videoCompositionSchema = Joi.object({
                         x: Joi.number().required(),
                         y: Joi.number().required()
                     }).optional(),
+                    fit: fitSchema.optional(),
                     effects: Joi.object({
-                        transitionIn: Joi.object({
-                            type: Joi.string().valid('fade', 'slide').optional(),
-                            duration: Joi.number().optional()
-                        }).optional(),
-                        transitionOut: Joi.object({
-                            type: Joi.string().valid('fade', 'slide').optional(),
-                            duration: Joi.number().optional()
-                        }).optional(),
-                        animation: Joi.string().optional(),
-                        speed: Joi.number().optional()
+                        transitionIn: transitionSchema.optional(),
+                        transitionOut: transitionSchema.optional(),
+                        animation: animationSchema.optional(),
+                        speed: speedSchema.optional()
                     }).optional(),
                     volume: Joi.number().optional(),
-                    font: Joi.string().optional(),
+                    font: fontSchema.optional(),
                     fontSize: Joi.number().optional(),
-                    color: Joi.string().optional()
+                    color: colorSchema.optional(),
+                    subtitle: subtitleOptionsSchema.optional()
                 }).required()
             })
         )
@@ -177,23 +547,19 @@ const videoCompositionSchema = Joi.object({
         .items(
             Joi.object({
                 assetId: Joi.string().required(),
-                startTime: Joi.number().required(),
+                startTime: Joi.number().min(0).required(),
+                layer: Joi.number().integer().default(0),
+                keyframes: Joi.array().items(keyframeSchema).optional(),
                 override: Joi.object({
                     position: Joi.object({
                         x: Joi.number(),
                         y: Joi.number()
                     }).optional(),
                     effects: Joi.object({
-                        transitionIn: Joi.object({
-                            type: Joi.string().valid('fade', 'slide').optional(),
-                            duration: Joi.number().optional()
-                        }).optional(),
-                        transitionOut: Joi.object({
-                            type: Joi.string().valid('fade', 'slide').optional(),
-                            duration: Joi.number().optional()
-                        }).optional(),
-                        animation: Joi.string().optional(),
-                        speed: Joi.number().optional()
+                        transitionIn: transitionSchema.optional(),
+                        transitionOut: transitionSchema.optional(),
+                        animation: animationSchema.optional(),
+                        speed: speedSchema.optional()
                     }).optional()
                 }).optional()
             })
@@ -201,81 +567,41 @@ const videoCompositionSchema = Joi.object({
         .required(),
 
     globalSettings: Joi.object({
+        // Los formatos de solo audio no tienen lienzo
         resolution: Joi.object({
             width: Joi.number().required(),
             height: Joi.number().required()
-        }).required(),
-        outputFormat: Joi.string().valid('mp4', 'mov').default('mp4')
+        }).when('outputFormat', { is: Joi.valid(...AUDIO_OUTPUT_FORMATS), then: Joi.optional(), otherwise: Joi.required() }),
+        fit: fitSchema.default('contain'),
+        fps: Joi.number().positive().max(120).default(30),
+        backgroundColor: colorSchema.default('black'),
+        outputFormat: Joi.string().valid(...OUTPUT_FORMAT_NAMES).default('mp4'),
+        animatedImage: Joi.object({
+            fps: Joi.number().positive().max(50),
+            width: Joi.number().integer().min(16).max(3840),
+            loop: Joi.boolean()
+        }).optional(),
+        encoding: encodingSchema.optional(),
+        probe: Joi.boolean().default(false)
     }).required()
 });
 
 /**
- * Transforma la data (assets/timeline/globalSettings) en un arreglo
- * simplificado de clips (solo video/audio) para trim+concat con ffmpeg.
- * Se añade try/catch interno para capturar fallos potenciales.
- */
-function transformToConcatClips(assets: any[], timeline: any[], globalSettings: any) {
-    try {
-        console.log('[transformToConcatClips] Iniciando transformación de datos para ffmpeg.');
-
-        const sortedTimeline = [...timeline].sort((a, b) => a.startTime - b.startTime);
-
-        const clips: Array<{
-            src: string;
-            start: number;
-            duration: number;
-        }> = [];
-
-        for (const item of sortedTimeline) {
-            const asset = assets.find((a) => a.id === item.assetId);
-            if (!asset) {
-                console.warn(`[transformToConcatClips] No se encontró el asset con id: ${item.assetId}. Se omitirá.`);
-                continue;
-            }
-
-            if (asset.type === 'video' || asset.type === 'audio') {
-                const startTrimMs = asset.aspecs.startTrim ?? 0;
-                const durationMs = asset.aspecs.duration;
-                const startSeconds = startTrimMs / 1000;
-                const durationSeconds = durationMs / 1000;
-
-                // Solo lo agregamos si existe una URL
-                if (asset.source?.url) {
-                    clips.push({
-                        src: asset.source.url,
-                        start: startSeconds,
-                        duration: durationSeconds
-                    });
-                    console.log(
-                        `[transformToConcatClips] Clip agregado: ${asset.type} | src=${asset.source.url} | start=${startSeconds}s | duration=${durationSeconds}s.`
-                    );
-                } else {
-                    console.warn(
-                        `[transformToConcatClips] El asset ${asset.id} no tiene 'source.url'. No se agregará al proceso.`
-                    );
-                }
-            } else {
-                console.log(`[transformToConcatClips] Ignorando asset de tipo ${asset.type}. (Se requiere lógica overlay)`);
-            }
-        }
-
-        // Retornamos el objeto con la lista de clips y el formato
-        return {
-            clips,
-            outputFormat: globalSettings.outputFormat
-        };
-    } catch (error) {
-        console.error('[transformToConcatClips] Error al transformar datos:', error);
-        throw error;
-    }
-}
-
-/**
- * Usa ffmpeg para hacer trim y concat de un conjunto de clips (video/audio).
- * Retorna la ruta del archivo generado.
+ * Usa ffmpeg para renderizar la composición: construye el grafo por capas
+ * (ver buildComposeGraph), escribe los archivos auxiliares en `folderPath` y ejecuta ffmpeg.
+ * El comando queda registrado con `id` mientras corre, para poder cancelarlo.
+ * Con `preview` se genera un archivo aparte ("preview-*") en baja resolución y con un preset rápido.
+ * `onProgress` recibe cada avance reportado por ffmpeg.
+ * Retorna la ruta del archivo generado; si ffmpeg falla, se elimina la salida parcial.
  * Se maneja try/catch a nivel de promesa, y se propaga el error si ocurre.
  */
-async function composeVideo(compositionData: any): Promise<string> {
+async function composeVideo(
+    id: string,
+    compositionData: ConcatCompositionData,
+    folderPath: string,
+    preview: PreviewSettings | null,
+    onProgress?: (progress: CompositionProgress) => void
+): Promise<string> {
     try {
         console.log('[composeVideo] Iniciando proceso de composición con ffmpeg.');
 
@@ -285,60 +611,72 @@ async function composeVideo(compositionData: any): Promise<string> {
             console.log(`[composeVideo] Creada carpeta para videos compuestos: ${composedDir}`);
         }
 
-        const outputFilename = `video-${Date.now()}.${compositionData.outputFormat}`;
+        const outputFilename = `${preview ? 'preview' : 'video'}-${Date.now()}.${compositionData.outputFormat}`;
         const outputPath = path.join(composedDir, outputFilename);
 
-        // Construcción del filtro complejo para trim y concat
-        const filterInputs: string[] = [];
-        compositionData.clips.forEach((clip: any, index: number) => {
-            filterInputs.push(
-                `[${index}:v]trim=start=${clip.start}:duration=${clip.duration},setpts=PTS-STARTPTS[v${index}]`
-            );
-            filterInputs.push(
-                `[${index}:a]atrim=start=${clip.start}:duration=${clip.duration},asetpts=PTS-STARTPTS[a${index}]`
-            );
-        });
-
-        let videoStreams = '';
-        let audioStreams = '';
-        for (let i = 0; i < compositionData.clips.length; i++) {
-            videoStreams += `[v${i}]`;
-            audioStreams += `[a${i}]`;
+        const graph = buildComposeGraph(compositionData, folderPath, preview);
+        for (const file of graph.files) {
+            fs.writeFileSync(file.path, file.content);
         }
 
-        const concatFilter = `${videoStreams}${audioStreams}concat=n=${compositionData.clips.length}:v=1:a=1[outv][outa]`;
-        const fullFilter = [...filterInputs, concatFilter].join(';');
-
-        console.log('[composeVideo] Filtro ffmpeg:', fullFilter);
-        console.log('[composeVideo] Generando archivo de salida en:', outputPath);
+        console.log('[composeVideo] Filtro ffmpeg:', graph.filter);
+        console.log(`[composeVideo] Generando archivo de salida (${graph.duration}s) en:`, outputPath);
 
         // Retornamos una promesa que se resuelve cuando ffmpeg termina
         return await new Promise((resolve, reject) => {
             const command = ffmpeg();
+            let startedAt = Date.now();
 
-            compositionData.clips.forEach((clip: any) => {
-                command.input(clip.src);
+            graph.inputs.forEach((input) => {
+                command.input(input.src);
+                if (input.options.length) {
+                    command.inputOptions(input.options);
+                }
             });
 
+            // Códecs del formato de salida (y, con `preview`, opciones que priorizan la velocidad)
+            if (graph.outputOptions.length) {
+                command.outputOptions(graph.outputOptions);
+            }
+
             command
-                .complexFilter(fullFilter, ['outv', 'outa'])
-                .outputOptions('-map', '[outv]', '-map', '[outa]')
+                .complexFilter(graph.filter, graph.outputs)
                 .output(outputPath)
                 .on('start', () => {
+                    startedAt = Date.now();
                     console.log('[composeVideo] ffmpeg proceso iniciado...');
                 })
                 .on('progress', (progress) => {
-                    console.log(`[composeVideo] Progreso: ${Math.floor(progress.percent || 0)}% (frame=${progress.frames})`);
+                    // El "percent" de fluent-ffmpeg se basa en la duración de las entradas, que no
+                    // coincide con la del timeline; se calcula con el tiempo ya renderizado.
+                    const outTime = timemarkToSeconds(progress.timemark);
+                    const percent = graph.duration ? Math.min(100, (outTime / graph.duration) * 100) : 0;
+                    const elapsed = (Date.now() - startedAt) / 1000;
+                    const current: CompositionProgress = {
+                        percent: Math.round(percent * 100) / 100,
+                        frame: progress.frames ?? 0,
+                        fps: progress.currentFps ?? 0,
+                        eta_seconds: percent > 0 ? Math.round((elapsed * (100 - percent)) / percent) : null,
+                        out_time: outTime
+                    };
+
+                    console.log(`[composeVideo] Progreso: ${Math.floor(current.percent)}% (frame=${current.frame})`);
+                    onProgress?.(current);
                 })
                 .on('end', () => {
+                    runningCommands.delete(id);
                     console.log('[composeVideo] ffmpeg proceso finalizado. Video disponible en:', outputPath);
                     resolve(outputPath);
                 })
                 .on('error', (err: Error) => {
+                    runningCommands.delete(id);
                     console.error('[composeVideo] Error en ffmpeg:', err);
+                    fs.rmSync(outputPath, { force: true });
                     reject(err);
                 })
                 .run();
+
+            runningCommands.set(id, command);
         });
     } catch (error) {
         console.error('[composeVideo] Error general antes de iniciar ffmpeg:', error);
@@ -346,6 +684,377 @@ async function composeVideo(compositionData: any): Promise<string> {
     }
 }
 
+/**
+ * Empaqueta el video compuesto como HLS en la carpeta de la composición (ver buildHlsPackageCommand).
+ * El comando queda registrado con `id` para poder cancelarlo, como el de composeVideo.
+ * Retorna el empaquetado generado; si ffmpeg falla, se elimina la carpeta HLS parcial.
+ */
+async function packageCompositionHls(
+    id: string,
+    videoPath: string,
+    settings: HlsSettings,
+    folderPath: string
+): Promise<CompositionHls> {
+    const folder = getHlsFolder(folderPath);
+    await removeCompositionHls(folder);
+    for (const rendition of settings.renditions) {
+        fs.mkdirSync(path.join(folder, rendition.name), { recursive: true });
+    }
+
+    const hlsCommand = buildHlsPackageCommand(settings, folder);
+    console.log(
+        `[packageCompositionHls] Empaquetando HLS (${settings.renditions.map((rendition) => rendition.name).join(', ')}) en:`,
+        folder
+    );
+
+    return new Promise((resolve, reject) => {
+        const command = ffmpeg(videoPath)
+            .complexFilter(hlsCommand.filter)
+            // Opciones como argumentos separados: `-var_stream_map` lleva espacios en su valor
+            .outputOptions(...hlsCommand.outputOptions)
+            .output(hlsCommand.output)
+            .on('end', () => {
+                runningCommands.delete(id);
+                console.log('[packageCompositionHls] Empaquetado HLS finalizado:', path.join(folder, hlsCommand.result.master));
+                resolve(hlsCommand.result);
+            })
+            .on('error', (err: Error) => {
+                runningCommands.delete(id);
+                console.error('[packageCompositionHls] Error en ffmpeg:', err);
+                void removeCompositionHls(folder).catch(() => undefined);
+                reject(err);
+            });
+
+        command.run();
+        runningCommands.set(id, command);
+    });
+}
+
+// Intervalo mínimo entre escrituras del avance en la BD (ms)
+const PROGRESS_SAVE_INTERVAL = 1000;
+
+/**
+ * Termina el procesamiento de una composición cancelada (ver cancelVideoComposition):
+ * el estado ya es "cancelled", solo queda eliminar sus archivos.
+ */
+function finishCancelledComposition(id: string, folderPath: string, outputPath?: string): void {
+    cancelRequests.delete(id);
+    if (outputPath) {
+        fs.rmSync(outputPath, { force: true });
+    }
+    removeCompositionFolder(folderPath);
+    console.log(`[processVideoComposition] Composición cancelada; archivos eliminados (ID: ${id}).`);
+}
+
+/**
+ * Procesa una composición encolada: lee el payload persistido, transforma los datos
+ * y ejecuta ffmpeg.
+ *
+ * Los errores no se propagan: se registran en "steps" y el estado pasa a "failed".
+ * Si se cancela durante el proceso, se detiene y elimina sus archivos sin cambiar el estado.
+ */
+async function runVideoComposition(id: string): Promise<void> {
+    console.log(`[processVideoComposition] Procesando composición ID: ${id}.`);
+
+    const record = await db('video_compositions').where({ id }).first();
+    if (!record) {
+        console.warn(`[processVideoComposition] No existe la composición ID: ${id}. Se omitirá.`);
+        return;
+    }
+
+    // 1) Recuperar y transformar el payload (assets/timeline/globalSettings)
+    let concatData: ConcatCompositionData;
+    let preview: PreviewSettings | null;
+    let hlsSettings: HlsSettings | null;
+    try {
+        const { assets, timeline, globalSettings, preview: previewOption, hls } = JSON.parse(record.payload || 'null');
+        concatData = transformToConcatClips(assets, timeline, globalSettings);
+        preview = resolvePreviewSettings(previewOption);
+        // Las advertencias de la escalera ya se informaron al encolar
+        hlsSettings = resolveHlsSettings(hls, concatData.resolution?.height, () => undefined);
+        await updateVideoCompositionProgress(id, {
+            steps: ['transform_clips_success']
+        });
+    } catch (transformError) {
+        console.error(`[processVideoComposition] Step: "transform_clips_failure" (ID: ${id}).`, transformError);
+        await updateVideoCompositionProgress(id, {
+            status: 'failed',
+            steps: ['transform_clips_failure']
+        });
+        return;
+    }
+
+    if (!concatData.duration) {
+        console.error(`[processVideoComposition] El timeline no contiene elementos para renderizar (ID: ${id}).`);
+        await updateVideoCompositionProgress(id, {
+            status: 'failed',
+            steps: ['no_valid_clips_found']
+        });
+        return;
+    }
+
+    // 2) Descargar los orígenes remotos (`source.url`) en la carpeta de la composición, con los
+    //    límites y la caché de remote_fetch.ts; ffmpeg solo lee archivos locales.
+    //    Ya descargados, se analizan con ffprobe los videos de los que no se sabe si tienen audio.
+    //    Una cancelación aborta la descarga en curso.
+    const downloads = new AbortController();
+    runningDownloads.set(id, downloads);
+    try {
+        await fetchCompositionSources(concatData, record.folder_path, downloads.signal);
+        await loadSubtitleSources(concatData.subtitles, downloads.signal);
+        await loadSubtitleFonts(concatData.subtitles, (message) => console.warn(`[processVideoComposition] ${message}`));
+        await detectClipAudio(concatData.clips, (message) => console.warn(`[processVideoComposition] ${message}`));
+        await updateVideoCompositionProgress(id, {
+            steps: ['fetch_sources_success']
+        });
+    } catch (fetchError) {
+        if (cancelRequests.has(id)) {
+            finishCancelledComposition(id, record.folder_path);
+            return;
+        }
+        console.error(`[processVideoComposition] Step: "fetch_sources_failure" (ID: ${id}).`, fetchError);
+        await updateVideoCompositionProgress(id, {
+            status: 'failed',
+            steps: ['fetch_sources_failure']
+        });
+        return;
+    } finally {
+        runningDownloads.delete(id);
+    }
+
+    // 3) Componer video (timeline por capas). Cada avance se emite a los clientes SSE y
+    //    se guarda en la BD como máximo una vez por intervalo.
+    if (cancelRequests.has(id)) {
+        finishCancelledComposition(id, record.folder_path);
+        return;
+    }
+
+    let outputPath: string;
+    let lastProgressSave = 0;
+    try {
+        outputPath = await composeVideo(id, concatData, record.folder_path, preview, (progress) => {
+            emitCompositionEvent({ type: 'progress', id, progress });
+
+            const now = Date.now();
+            if (now - lastProgressSave >= PROGRESS_SAVE_INTERVAL) {
+                lastProgressSave = now;
+                void saveCompositionProgress(id, progress);
+            }
+        });
+    } catch (composeErr) {
+        if (cancelRequests.has(id)) {
+            finishCancelledComposition(id, record.folder_path);
+            return;
+        }
+        console.error(`[processVideoComposition] Step: "compose_video_failure" (ID: ${id}).`, composeErr);
+        await updateVideoCompositionProgress(id, {
+            status: 'failed',
+            steps: ['compose_video_failure']
+        });
+        return;
+    }
+
+    // ffmpeg pudo terminar justo antes de que llegara la cancelación
+    if (cancelRequests.has(id)) {
+        finishCancelledComposition(id, record.folder_path, outputPath);
+        return;
+    }
+
+    await updateVideoCompositionProgress(id, {
+        steps: ['compose_video_success']
+    });
+
+    // 4) Empaquetar el video como HLS (opción `hls`), en la carpeta de la composición
+    let hls: CompositionHls | null = null;
+    if (hlsSettings) {
+        try {
+            hls = await packageCompositionHls(id, outputPath, hlsSettings, record.folder_path);
+        } catch (hlsError) {
+            if (cancelRequests.has(id)) {
+                finishCancelledComposition(id, record.folder_path, outputPath);
+                return;
+            }
+            console.error(`[processVideoComposition] Step: "hls_package_failure" (ID: ${id}).`, hlsError);
+            fs.rmSync(outputPath, { force: true });
+            await updateVideoCompositionProgress(id, {
+                status: 'failed',
+                steps: ['hls_package_failure']
+            });
+            return;
+        }
+
+        if (cancelRequests.has(id)) {
+            finishCancelledComposition(id, record.folder_path, outputPath);
+            return;
+        }
+        await updateVideoCompositionProgress(id, {
+            steps: ['hls_package_success']
+        });
+    }
+
+    // 5) Marcar como "completed", solo si sigue "in_progress": una cancelación que llegue después
+    //    de la última comprobación no debe quedar pisada
+    try {
+        await saveCompositionProgress(id, {
+            percent: 100,
+            frame: 0,
+            fps: 0,
+            eta_seconds: 0,
+            out_time: concatData.duration
+        });
+        const completed = await updateVideoCompositionProgress(
+            id,
+            {
+                status: 'completed',
+                steps: ['video_composed'],
+                video_path: outputPath,
+                ...(hls ? { hls: JSON.stringify(hls) } : {}),
+                expiration_time: new Date(Date.now() + 60 * 60 * 1000) // 1 hora
+            },
+            'in_progress'
+        );
+        if (!completed) {
+            finishCancelledComposition(id, record.folder_path, outputPath);
+            return;
+        }
+    } catch (updateError) {
+        console.error(`[processVideoComposition] Step: "update_composition_failure" (ID: ${id}).`, updateError);
+        // Solo loggeamos, porque el video ya se compuso con éxito.
+    }
+
+    console.log(`[processVideoComposition] Proceso de composición completado (ID: ${id}).`);
+}
+
+/**
+ * Punto de entrada del worker de la cola (ver video_compose_queue.ts), que lo invoca una vez
+ * que reclamó el registro y lo marcó como "in_progress". Al terminar, con éxito o con error,
+ * notifica el `callbackUrl` de la composición si lo tiene.
+ */
+export async function processVideoComposition(id: string): Promise<void> {
+    try {
+        await runVideoComposition(id);
+    } finally {
+        void notifyCompositionFinished(id).catch((error) => {
+            console.error(`[processVideoComposition] Error al notificar el webhook (ID: ${id}):`, error);
+        });
+    }
+}
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SubtitleOptions:
+ *       type: object
+ *       description: >
+ *         Opciones de un asset "subtitle". Los tiempos de los cues se desplazan al `startTime` del
+ *         elemento en el timeline (menos `startTrim`). El texto usa `font` (nombre de familia o archivo
+ *         .ttf/.otf/.ttc de FONTS_DIR, del que se lee su familia), `fontSize` (px del lienzo, por
+ *         defecto 5% del alto) y `color` del asset. Los colores aceptan nombres, hexadecimales y
+ *         opacidad como en ffmpeg (p.ej. "black@0.5").
+ *       properties:
+ *         mode:
+ *           type: string
+ *           enum: [burn, soft]
+ *           default: burn
+ *           description: >
+ *             "burn" dibuja los subtítulos sobre el video; "soft" los agrega como pista de subtítulos
+ *             seleccionable (mov_text) del mp4/mov.
+ *         language:
+ *           type: string
+ *           example: spa
+ *           description: Código ISO 639-2 de la pista "soft".
+ *         outlineColor:
+ *           type: string
+ *           default: black
+ *         outline:
+ *           type: number
+ *           default: 2
+ *           description: Grosor del contorno (o margen de la caja con `backgroundColor`), en px.
+ *         backgroundColor:
+ *           type: string
+ *           description: Si se indica, el texto se dibuja sobre una caja de este color en lugar de con contorno.
+ *         position:
+ *           type: string
+ *           enum: [bottom, middle, top]
+ *           default: bottom
+ *         margin:
+ *           type: number
+ *           description: Distancia vertical al borde, en px (por defecto 5% del alto).
+ *     EncodingSettings:
+ *       type: object
+ *       description: >
+ *         Codificación de la salida (no aplica a gif/webp). Se resuelve en orden: valores explícitos,
+ *         `preset` y los valores por defecto del formato y del códec. Se valida contra el formato
+ *         (códecs que admite el contenedor) y contra el ffmpeg del servidor (encoders, formatos de
+ *         pixel y frecuencias de muestreo). `globalSettings.fps` define el frame rate de salida.
+ *       properties:
+ *         preset:
+ *           type: string
+ *           enum: [web, social, archive]
+ *           description: >
+ *             web: tamaño contenido y keyframes cada 2 s. social: más calidad de origen para
+ *             plataformas que vuelven a codificar. archive: casi sin pérdida (ProRes y PCM en mov,
+ *             PCM 24 bits en wav, ALAC en m4a).
+ *         videoCodec:
+ *           type: string
+ *           enum: [libx264, libx265, libvpx-vp9, libaom-av1, prores_ks]
+ *           description: >
+ *             Por defecto libx264 (mp4/mov) o libvpx-vp9 (webm). mp4 admite libx264, libx265 y
+ *             libaom-av1; mov libx264, libx265 y prores_ks; webm libvpx-vp9 y libaom-av1.
+ *         crf:
+ *           type: integer
+ *           description: Calidad constante (menor es mejor); 0-51 en x264/x265 y 0-63 en VP9/AV1.
+ *         videoBitrate:
+ *           type: integer
+ *           description: Bitrate objetivo en kbps, en lugar de `crf`.
+ *         encoderPreset:
+ *           type: string
+ *           enum: [ultrafast, superfast, veryfast, faster, fast, medium, slow, slower, veryslow]
+ *           description: Velocidad/compresión de libx264 y libx265.
+ *         pixelFormat:
+ *           type: string
+ *           example: yuv420p
+ *         gop:
+ *           type: integer
+ *           description: Frames entre keyframes.
+ *         audioCodec:
+ *           type: string
+ *           enum: [aac, libmp3lame, libopus, libvorbis, pcm_s16le, pcm_s24le, alac]
+ *         audioBitrate:
+ *           type: integer
+ *           description: kbps; no aplica a PCM ni ALAC.
+ *         audioSampleRate:
+ *           type: integer
+ *           example: 48000
+ *         faststart:
+ *           type: boolean
+ *           default: true
+ *           description: Índice al inicio del archivo (mp4, mov y m4a) para reproducir mientras se descarga.
+ *     VideoTransition:
+ *       type: object
+ *       description: >
+ *         Transición de entrada/salida de un elemento. Entre dos clips de video consecutivos de la
+ *         misma capa (uno empieza donde termina el otro) se aplica como crossfade de video y audio: el
+ *         clip saliente continúa la duración de la transición por debajo del entrante, que se funde
+ *         ("fade") o se desliza ("slide") sobre él; se usa la `transitionIn` del entrante o, si no
+ *         tiene, la `transitionOut` del saliente. En los demás casos "fade" funde la transparencia
+ *         (y el audio) desde/hacia `backgroundColor` o lo que haya en capas inferiores, y "slide"
+ *         desplaza el elemento desde/hacia el borde según `direction`. El override del timeline
+ *         tiene prioridad sobre el asset.
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [fade, slide]
+ *         duration:
+ *           type: number
+ *           description: Duración en milisegundos (por defecto 500).
+ *         direction:
+ *           type: string
+ *           enum: [left, right, up, down]
+ *           default: left
+ */
+
 /**
  * @swagger
  * /api/videos/compose:
@@ -354,8 +1063,24 @@ async function composeVideo(compositionData: any): Promise<string> {
  *     summary: Componer video a partir de un JSON de composición
  *     description: >
  *       Recibe un JSON que describe la composición del video (incluye video, audio, texto e imágenes).
- *       Actualmente, el sistema solo concatena y recorta (trim) recursos de tipo video/audio,
- *       registrando el proceso en la base de datos y devolviendo la ruta del video final.
+ *       El timeline es por capas: cada elemento aparece en su `startTime` durante `aspecs.duration`
+ *       sobre un lienzo de `globalSettings.resolution`; los huecos se rellenan con
+ *       `globalSettings.backgroundColor` y los elementos solapados se apilan según `layer`.
+ *       La duración del video es la del timeline. Los videos se recortan desde `aspecs.startTrim`;
+ *       las imágenes se ubican en `aspecs.position` escaladas a `aspecs.resolution`; los audios
+ *       se mezclan en su `startTime` con el audio de los clips (`aspecs.volume` es un multiplicador
+ *       lineal). Las transiciones se describen en VideoTransition.
+ *       La composición se persiste en la tabla "video_compositions" y se encola; la respuesta
+ *       (202) retorna el ID inmediatamente y el render lo realiza un worker en segundo plano.
+ *       El avance se consulta con POST /api/videos/status.
+ *       Con `sync=true` la respuesta espera a que la composición termine; si el cliente se
+ *       desconecta antes, la composición se cancela.
+ *     parameters:
+ *       - in: query
+ *         name: sync
+ *         schema:
+ *           type: boolean
+ *           default: false
  *     requestBody:
  *       required: true
  *       content:
@@ -363,6 +1088,71 @@ async function composeVideo(compositionData: any): Promise<string> {
  *           schema:
  *             type: object
  *             properties:
+ *               callbackUrl:
+ *                 type: string
+ *                 format: uri
+ *                 description: >
+ *                   URL que recibe un POST con `id`, `status`, `steps`, `download_url` y
+ *                   `expiration_time` cuando la composición termina (completed, failed o cancelled).
+ *                   Cabeceras: `X-Webhook-Timestamp` y `X-Webhook-Signature: sha256=<hex>`, donde
+ *                   la firma es HMAC-SHA256 de `<timestamp>.<body>` con la API key del cliente.
+ *                   Las entregas fallidas se reintentan con backoff exponencial. Se rechazan (400) las
+ *                   URLs de hosts denegados o que resuelven a IPs privadas o reservadas; no se siguen
+ *                   redirecciones.
+ *               preview:
+ *                 description: >
+ *                   Render de previsualización para revisar tiempos: el mismo timeline a `height` px de
+ *                   alto, `fps` cuadros por segundo y un preset rápido, opcionalmente solo en `range`
+ *                   (ms). Se guarda como un archivo aparte con `render_mode: preview`. `true` usa los
+ *                   valores por defecto.
+ *                 oneOf:
+ *                   - type: boolean
+ *                   - type: object
+ *                     properties:
+ *                       height:
+ *                         type: integer
+ *                         default: 360
+ *                       fps:
+ *                         type: number
+ *                         default: 15
+ *                       range:
+ *                         type: object
+ *                         properties:
+ *                           start:
+ *                             type: number
+ *                             default: 0
+ *                           end:
+ *                             type: number
+ *               hls:
+ *                 description: >
+ *                   Empaqueta además el video final como HLS (H.264/AAC, segmentos MPEG-TS) con una
+ *                   escalera de variantes para reproducción adaptativa. `true` usa 1080p/720p/480p; las
+ *                   variantes más altas que el lienzo se omiten. Solo para formatos de video y sin
+ *                   `preview`. El master se obtiene con GET /api/videos/{id}/hls y expira con el video.
+ *                 oneOf:
+ *                   - type: boolean
+ *                   - type: object
+ *                     properties:
+ *                       renditions:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           required: [height]
+ *                           properties:
+ *                             height:
+ *                               type: integer
+ *                               example: 720
+ *                             videoBitrate:
+ *                               type: integer
+ *                               description: kbps (por defecto según el alto, p.ej. 2800 en 720p).
+ *                             audioBitrate:
+ *                               type: integer
+ *                               default: 128
+ *                               description: kbps.
+ *                       segmentDuration:
+ *                         type: number
+ *                         default: 6
+ *                         description: Duración objetivo de cada segmento, en segundos.
  *               assets:
  *                 type: array
  *                 items:
@@ -372,9 +1162,18 @@ async function composeVideo(compositionData: any): Promise<string> {
  *                       type: string
  *                     type:
  *                       type: string
- *                       enum: [video, audio, text, image]
+ *                       enum: [video, audio, text, image, subtitle]
  *                     source:
  *                       type: object
+ *                       description: >
+ *                         Origen del asset (al menos uno). Los videos, audios e imágenes aceptan `url`,
+ *                         `data_base64` o un data URL en `content`; el base64 se decodifica en la carpeta
+ *                         de la composición. Las URLs (solo http/https) se descargan antes del render, con
+ *                         límites de host, tamaño y tiempo, y una caché compartida por URL y ETag. Los
+ *                         textos usan `content`. Los subtítulos aceptan el texto SRT o WebVTT en `content`
+ *                         o una `url` que se descarga al renderizar. Todos salvo
+ *                         los textos aceptan `assetRef`: el id de un asset de la biblioteca (POST /api/assets),
+ *                         que se lee del disco sin volver a transferirse.
  *                       properties:
  *                         url:
  *                           type: string
@@ -383,6 +1182,9 @@ async function composeVideo(compositionData: any): Promise<string> {
  *                           type: string
  *                         content:
  *                           type: string
+ *                         assetRef:
+ *                           type: string
+ *                           description: SHA-256 de un asset de la biblioteca.
  *                     aspecs:
  *                       type: object
  *                       properties:
@@ -390,6 +1192,10 @@ async function composeVideo(compositionData: any): Promise<string> {
  *                           type: number
  *                         duration:
  *                           type: number
+ *                           description: >
+ *                             Milisegundos. Opcional en videos y audios con `globalSettings.probe` o con
+ *                             `source.assetRef` (se usa la duración guardada en la biblioteca). En
+ *                             subtítulos es opcional: sin ella se muestran hasta el final de la composición.
  *                         resolution:
  *                           type: object
  *                           properties:
@@ -404,25 +1210,52 @@ async function composeVideo(compositionData: any): Promise<string> {
  *                               type: number
  *                             y:
  *                               type: number
+ *                         fit:
+ *                           type: string
+ *                           enum: [contain, cover, stretch]
+ *                           description: >
+ *                             Ajuste a la caja (`resolution` o el lienzo). En videos por defecto
+ *                             es `globalSettings.fit`; en imágenes, sin `fit` se conserva el tamaño original.
  *                         effects:
  *                           type: object
  *                           properties:
  *                             transitionIn:
- *                               type: object
+ *                               $ref: '#/components/schemas/VideoTransition'
  *                             transitionOut:
- *                               type: object
+ *                               $ref: '#/components/schemas/VideoTransition'
  *                             animation:
  *                               type: string
+ *                               example: kenburns
+ *                               description: >
+ *                                 Animación predefinida: kenburns (acercamiento lento), slide-in (entra
+ *                                 deslizándose si no hay transitionIn) o pop (aparece con escala y rebote).
+ *                                 Otros valores se ignoran con una advertencia. Los `keyframes` del
+ *                                 timeline tienen prioridad.
  *                             speed:
  *                               type: number
+ *                               minimum: 0.1
+ *                               maximum: 10
+ *                               description: >
+ *                                 Velocidad de videos y audios (el audio conserva el tono). `duration` es el
+ *                                 tramo del archivo, que en el timeline ocupa duration / speed.
  *                         volume:
  *                           type: number
  *                         font:
  *                           type: string
+ *                           description: >
+ *                             Nombre de familia (fontconfig) o nombre de un archivo .ttf/.otf/.ttc de la
+ *                             carpeta de fuentes del servidor (FONTS_DIR). Solo letras, números, espacios,
+ *                             ".", "_" y "-".
  *                         fontSize:
  *                           type: number
  *                         color:
  *                           type: string
+ *                           example: "#FFCC00@0.8"
+ *                           description: >
+ *                             Nombre de color o hexadecimal con "#" o "0x" (RGB o RGBA), con opacidad
+ *                             opcional "@0-1" como en ffmpeg.
+ *                         subtitle:
+ *                           $ref: '#/components/schemas/SubtitleOptions'
  *               timeline:
  *                 type: array
  *                 items:
@@ -432,6 +1265,39 @@ async function composeVideo(compositionData: any): Promise<string> {
  *                       type: string
  *                     startTime:
  *                       type: number
+ *                       minimum: 0
+ *                       description: Inicio del elemento en la línea de tiempo final (ms).
+ *                     layer:
+ *                       type: integer
+ *                       default: 0
+ *                       description: Capa (z-index). Los elementos visuales de capas mayores se dibujan encima.
+ *                     keyframes:
+ *                       type: array
+ *                       description: >
+ *                         Animación del elemento, interpolada entre keyframes con la curva `easing` de cada
+ *                         uno hasta el siguiente. `time` en ms desde el inicio del elemento; x/y son la
+ *                         esquina superior izquierda (como `position`); scale y rotation (grados) se aplican
+ *                         desde el centro del elemento; opacity se combina con los fundidos. Las imágenes
+ *                         sin `aspecs.resolution` se centran según su tamaño actual. Los textos no rotan.
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           time:
+ *                             type: number
+ *                           x:
+ *                             type: number
+ *                           y:
+ *                             type: number
+ *                           scale:
+ *                             type: number
+ *                           opacity:
+ *                             type: number
+ *                           rotation:
+ *                             type: number
+ *                           easing:
+ *                             type: string
+ *                             enum: [linear, ease-in, ease-out, ease-in-out]
+ *                             default: linear
  *                     override:
  *                       type: object
  *                       properties:
@@ -446,30 +1312,94 @@ async function composeVideo(compositionData: any): Promise<string> {
  *                           type: object
  *                           properties:
  *                             transitionIn:
- *                               type: object
+ *                               $ref: '#/components/schemas/VideoTransition'
  *                             transitionOut:
- *                               type: object
+ *                               $ref: '#/components/schemas/VideoTransition'
  *                             animation:
  *                               type: string
+ *                               example: kenburns
+ *                               description: >
+ *                                 Animación predefinida: kenburns (acercamiento lento), slide-in (entra
+ *                                 deslizándose si no hay transitionIn) o pop (aparece con escala y rebote).
+ *                                 Otros valores se ignoran con una advertencia. Los `keyframes` del
+ *                                 timeline tienen prioridad.
  *                             speed:
  *                               type: number
+ *                               minimum: 0.1
+ *                               maximum: 10
+ *                               description: >
+ *                                 Velocidad de videos y audios (el audio conserva el tono). `duration` es el
+ *                                 tramo del archivo, que en el timeline ocupa duration / speed.
  *               globalSettings:
  *                 type: object
  *                 properties:
  *                   resolution:
  *                     type: object
+ *                     description: Tamaño del lienzo. Opcional en los formatos de solo audio.
  *                     properties:
  *                       width:
  *                         type: number
  *                       height:
  *                         type: number
+ *                   fit:
+ *                     type: string
+ *                     enum: [contain, cover, stretch]
+ *                     default: contain
+ *                     description: >
+ *                       Ajuste de los videos al lienzo. contain agrega bandas (letterbox),
+ *                       cover recorta y stretch deforma.
+ *                   fps:
+ *                     type: number
+ *                     default: 30
+ *                     description: Frame rate al que se normalizan todas las entradas.
+ *                   backgroundColor:
+ *                     type: string
+ *                     default: black
+ *                     description: >
+ *                       Color de los huecos del timeline: nombre o hexadecimal con "#" o "0x", con
+ *                       opacidad opcional "@0-1" (como `aspecs.color`).
  *                   outputFormat:
  *                     type: string
- *                     enum: [mp4, mov]
+ *                     enum: [mp4, mov, webm, gif, webp, mp3, wav, m4a]
  *                     default: mp4
+ *                     description: >
+ *                       mp4/mov (H.264/AAC), webm (VP9/Opus), gif y webp animados (sin audio, ver
+ *                       `animatedImage`) o solo audio: mp3, wav y m4a (AAC). Los formatos de solo audio
+ *                       no admiten videos, imágenes, textos ni subtítulos; gif y webp no admiten
+ *                       subtítulos "soft".
+ *                   animatedImage:
+ *                     type: object
+ *                     description: Ajustes de las salidas gif y webp.
+ *                     properties:
+ *                       fps:
+ *                         type: number
+ *                         default: 15
+ *                         maximum: 50
+ *                       width:
+ *                         type: integer
+ *                         default: 480
+ *                         description: Ancho máximo (px); el alto respeta la relación de aspecto.
+ *                       loop:
+ *                         type: boolean
+ *                         default: true
+ *                         description: Repetir la animación indefinidamente.
+ *                   encoding:
+ *                     $ref: '#/components/schemas/EncodingSettings'
+ *                   probe:
+ *                     type: boolean
+ *                     default: false
+ *                     description: >
+ *                       Analiza los videos y audios con ffprobe antes de encolar: completa
+ *                       `aspecs.duration` si falta (lo que queda desde `startTrim`), limita `startTrim`
+ *                       y `duration` a la duración real y omite el audio de los videos que no lo tienen.
+ *                       Los ajustes se informan en `warnings`.
  *     responses:
  *       200:
- *         description: Video generado exitosamente.
+ *         description: >
+ *           Solo con `sync=true`: la composición terminó. `status` es completed (con
+ *           `download_url`), failed o cancelled.
+ *       202:
+ *         description: Composición encolada. El render se realiza en segundo plano.
  *         content:
  *           application/json:
  *             schema:
@@ -477,22 +1407,108 @@ async function composeVideo(compositionData: any): Promise<string> {
  *               properties:
  *                 status:
  *                   type: string
- *                 outputPath:
+ *                   example: queued
+ *                 id:
  *                   type: string
+ *                 warnings:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Elementos del timeline omitidos o assets sin usar.
  *                 message:
  *                   type: string
+ *       400:
+ *         description: La composición no contiene clips válidos, no pudo transformarse o el callbackUrl no está permitido.
+ *       500:
+ *         description: Error interno al registrar la composición.
  */
 router.post(
     '/api/videos/compose',
     celebrate({
-        [Segments.BODY]: videoCompositionSchema
+        [Segments.BODY]: videoCompositionSchema,
+        [Segments.QUERY]: Joi.object({
+            sync: Joi.boolean().default(false)
+        })
     }),
     async (req: Request, res: Response): Promise<any> => {
         let requestId = '';
         try {
             console.log('[POST /api/videos/compose] Solicitud de composición recibida.');
 
-            // 1) Inicializar tabla (si no existe)
+            // 0) El webhook no puede apuntar a la red interna del servidor (también se valida en cada entrega)
+            if (req.body.callbackUrl) {
+                try {
+                    await assertCallbackUrlAllowed(req.body.callbackUrl);
+                } catch (callbackError) {
+                    console.error('[POST /api/videos/compose] callbackUrl rechazado:', callbackError.message);
+                    return res.status(400).json({
+                        status: 'error',
+                        message: 'El callbackUrl no está permitido.',
+                        error: callbackError.message
+                    });
+                }
+            }
+
+            // 1) Validar que la composición se pueda transformar antes de encolarla,
+            //    para responder 400 de inmediato en lugar de fallar dentro del worker.
+            //    Antes se resuelven los `assetRef` de la biblioteca y, con globalSettings.probe, se
+            //    completan las duraciones con ffprobe; el payload encolado ya lleva los valores ajustados.
+            const { assets, timeline, globalSettings, preview } = req.body;
+            let concatData: ConcatCompositionData;
+            let probeWarnings: string[] = [];
+            let encodingWarnings: string[] = [];
+            try {
+                await resolveAssetRefs(assets);
+                if (globalSettings.probe) {
+                    probeWarnings = await applyMediaProbe(assets);
+                }
+                concatData = transformToConcatClips(assets, timeline, globalSettings);
+                encodingWarnings = await validateEncodingSupport(concatData.encoding);
+            } catch (transformError) {
+                console.error('[POST /api/videos/compose] Step: "transform_clips_failure".', transformError);
+                return res.status(400).json({
+                    status: 'error',
+                    message: 'Ocurrió un error al transformar los datos de composición.',
+                    error: transformError.message
+                });
+            }
+
+            if (!concatData.duration) {
+                const noClipsError = 'El timeline no contiene elementos válidos para renderizar.';
+                console.error('[POST /api/videos/compose]', noClipsError);
+                return res.status(400).json({
+                    status: 'error',
+                    message: noClipsError
+                });
+            }
+
+            const previewSettings = resolvePreviewSettings(preview);
+            if (previewSettings && previewSettings.start >= concatData.duration) {
+                return res.status(400).json({
+                    status: 'error',
+                    message: `El rango de la previsualización empieza después del final del timeline (${concatData.duration * 1000} ms).`
+                });
+            }
+
+            // El HLS se empaqueta a partir del video final, así que requiere un formato con video y audio
+            const hlsWarnings: string[] = [];
+            if (req.body.hls) {
+                if (previewSettings) {
+                    return res.status(400).json({
+                        status: 'error',
+                        message: 'El empaquetado HLS no está disponible en las previsualizaciones.'
+                    });
+                }
+                if (OUTPUT_FORMATS[concatData.outputFormat].kind !== 'video') {
+                    return res.status(400).json({
+                        status: 'error',
+                        message: `El empaquetado HLS requiere un formato de video (mp4, mov o webm), no '${concatData.outputFormat}'.`
+                    });
+                }
+                resolveHlsSettings(req.body.hls, concatData.resolution.height, (message) => hlsWarnings.push(message));
+            }
+
+            // 2) Inicializar tabla (si no existe)
             try {
                 await initializeVideoCompositionTable();
                 console.log('[POST /api/videos/compose] Step: "table_initialization_success".');
@@ -505,10 +1521,10 @@ router.post(
                 });
             }
 
-            // 2) Generar ID único para la composición
+            // 3) Generar ID único para la composición
             requestId = crypto.randomBytes(16).toString('hex');
 
-            // 3) Crear carpeta para almacenar assets/resultado
+            // 4) Crear carpeta para almacenar assets/resultado
             const folderPath = path.join(process.cwd(), 'data', 'composeVideo', requestId);
             try {
                 fs.mkdirSync(folderPath, { recursive: true });
@@ -522,14 +1538,21 @@ router.post(
                 });
             }
 
-            // 4) Crear registro inicial en la BD
-            let stepsInDb: string[] = [];
+            // 5) Persistir la composición en estado "queued" junto con su payload.
+            //    Para el webhook se guarda la huella de la API key (nunca la key en sí).
+            const { callbackUrl } = req.body;
+            const apiKey = req.header('Authorization').split(' ')[1];
             try {
-                stepsInDb = await createVideoCompositionRecord({
+                await createVideoCompositionRecord({
                     id: requestId,
-                    status: 'in_progress',
-                    steps: ['record_creation_success'],
-                    folder_path: folderPath
+                    status: 'queued',
+                    steps: ['record_creation_success', 'job_queued'],
+                    folder_path: folderPath,
+                    payload: req.body,
+                    callback_url: callbackUrl,
+                    api_key_hash: callbackUrl ? hashApiKey(apiKey) : undefined,
+                    webhook_status: callbackUrl ? 'pending' : undefined,
+                    render_mode: req.body.preview ? 'preview' : 'final'
                 });
             } catch (recordError) {
                 console.error('[POST /api/videos/compose] Step: "record_creation_failure".', recordError);
@@ -540,82 +1563,52 @@ router.post(
                 });
             }
 
-            // 5) Transformar data (assets/timeline/globalSettings)
-            const { assets, timeline, globalSettings } = req.body;
-            let concatData: { clips: any[]; outputFormat: string };
-            try {
-                concatData = transformToConcatClips(assets, timeline, globalSettings);
-                // Actualizar steps con "transform_clips_success"
-                await updateVideoCompositionProgress(requestId, {
-                    steps: ['transform_clips_success']
-                });
-            } catch (transformError) {
-                console.error('[POST /api/videos/compose] Step: "transform_clips_failure".', transformError);
-                await updateVideoCompositionProgress(requestId, {
-                    status: 'failed',
-                    steps: ['transform_clips_failure']
+            console.log(`[POST /api/videos/compose] Composición encolada (ID: ${requestId}).`);
+
+            // 6) Modo síncrono: se mantiene la conexión hasta que la composición termine.
+            //    Si el cliente se desconecta antes, se cancela para no seguir ocupando ffmpeg.
+            if (req.query.sync) {
+                const id = requestId;
+                let finished = false;
+                const finalStatus = await new Promise<string>((resolve) => {
+                    const unsubscribe = subscribeToComposition(id, (event) => {
+                        if (event.type === 'step' && event.status && FINAL_COMPOSITION_STATUSES.includes(event.status)) {
+                            unsubscribe();
+                            resolve(event.status);
+                        }
+                    });
+                    res.on('close', () => {
+                        if (!finished) {
+                            console.warn(`[POST /api/videos/compose] El cliente se desconectó; cancelando la composición (ID: ${id}).`);
+                            void cancelVideoComposition(id, 'cancelled_client_disconnected').catch((error) => {
+                                console.error(`[POST /api/videos/compose] Error al cancelar la composición (ID: ${id}):`, error);
+                            });
+                        }
+                    });
                 });
-                return res.status(400).json({
-                    status: 'error',
-                    message: 'Ocurrió un error al transformar los datos de composición.',
-                    error: transformError.message
-                });
-            }
+                finished = true;
 
-            // Verificamos que haya clips de video/audio
-            if (!concatData.clips.length) {
-                const noClipsError = 'No se encontraron clips de video/audio para procesar.';
-                console.error('[POST /api/videos/compose]', noClipsError);
-                await updateVideoCompositionProgress(requestId, {
-                    status: 'failed',
-                    steps: ['no_valid_clips_found']
-                });
-                return res.status(400).json({
-                    status: 'error',
-                    message: noClipsError
-                });
-            }
-
-            // 6) Componer video (trim+concat)
-            let outputPath: string;
-            try {
-                outputPath = await composeVideo(concatData);
-
-                // Actualizar steps con "compose_video_success"
-                await updateVideoCompositionProgress(requestId, {
-                    steps: ['compose_video_success']
-                });
-            } catch (composeErr) {
-                console.error('[POST /api/videos/compose] Step: "compose_video_failure".', composeErr);
-                await updateVideoCompositionProgress(requestId, {
-                    status: 'failed',
-                    steps: ['compose_video_failure']
-                });
-                return res.status(400).json({
-                    status: 'error',
-                    message: 'Ocurrió un error al componer el video con ffmpeg.',
-                    error: composeErr.message
-                });
-            }
+                if (res.writableEnded || res.destroyed) {
+                    return;
+                }
 
-            // 7) Marcar como "completed"
-            try {
-                await updateVideoCompositionProgress(requestId, {
-                    status: 'completed',
-                    steps: ['video_composed'],
-                    video_path: outputPath,
-                    expiration_time: new Date(Date.now() + 60 * 60 * 1000) // 1 hora
+                // 200 en todos los casos: el resultado del render se informa en `status`
+                const composition = await db('video_compositions').where({ id }).first();
+                return res.status(200).json({
+                    status: finalStatus,
+                    id,
+                    steps: JSON.parse(composition.steps || '[]'),
+                    download_url: composition.video_path ? `/api/videos/${id}/download` : null,
+                    hls_url: composition.hls ? `/api/videos/${id}/hls` : null,
+                    expiration_time: composition.expiration_time
                 });
-            } catch (updateError) {
-                console.error('[POST /api/videos/compose] Step: "update_composition_failure".', updateError);
-                // No retornamos aquí, solo loggeamos, porque el video ya se compuso con éxito.
             }
 
-            console.log(`[POST /api/videos/compose] Proceso de composición completado (ID: ${requestId}).`);
-            res.status(200).json({
-                status: 'success',
-                outputPath,
-                message: 'Vídeo generado exitosamente'
+            res.status(202).json({
+                status: 'queued',
+                id: requestId,
+                warnings: [...probeWarnings, ...concatData.warnings, ...encodingWarnings, ...hlsWarnings],
+                message: 'Composición encolada. Consulte /api/videos/status para conocer su avance.'
             });
         } catch (error: any) {
             console.error(`[POST /api/videos/compose] Error general en la ruta de composición (ID: ${requestId}):`, error);
@@ -641,6 +1634,145 @@ router.post(
 );
 
 
+/**
+ * @swagger
+ * /api/videos/compose/plan:
+ *   post:
+ *     tags: [/api/video]
+ *     summary: Planificar una composición sin renderizarla
+ *     description: >
+ *       Recibe el mismo JSON que POST /api/videos/compose y retorna lo que se ejecutaría, sin
+ *       correr ffmpeg ni guardar nada: los clips, audios y overlays resueltos, las entradas de
+ *       ffmpeg, el filter_complex completo, la duración esperada y advertencias (assets omitidos
+ *       o sin usar). Los orígenes en base64 se resumen y sus rutas son ilustrativas.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Mismo esquema que POST /api/videos/compose.
+ *     responses:
+ *       200:
+ *         description: Plan de la composición.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 clips:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 audioTracks:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 overlays:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 inputs:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       src:
+ *                         type: string
+ *                       options:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                 subtitles:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                 filter_complex:
+ *                   type: string
+ *                   nullable: true
+ *                 output_options:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *                   description: Códecs del formato de salida y opciones adicionales (p.ej. el mapeo de subtítulos "soft").
+ *                 duration:
+ *                   type: number
+ *                   description: Duración esperada del video, en segundos.
+ *                 output_format:
+ *                   type: string
+ *                 encoding:
+ *                   nullable: true
+ *                   description: Codificación resuelta (preset, valores por defecto del formato y del códec).
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/EncodingSettings'
+ *                 warnings:
+ *                   type: array
+ *                   items:
+ *                     type: string
+ *       400:
+ *         description: La composición no pudo transformarse.
+ */
+router.post(
+    '/api/videos/compose/plan',
+    celebrate({
+        [Segments.BODY]: videoCompositionSchema
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { assets, timeline, globalSettings } = req.body;
+
+        let concatData: ConcatCompositionData;
+        let warnings: string[];
+        let graph: ReturnType<typeof buildComposeGraph> | null = null;
+        try {
+            await resolveAssetRefs(assets);
+            const probeWarnings = globalSettings.probe ? await applyMediaProbe(assets) : [];
+            concatData = transformToConcatClips(assets, timeline, globalSettings);
+            const encodingWarnings = await validateEncodingSupport(concatData.encoding);
+            await loadSubtitleSources(concatData.subtitles);
+            const fontWarnings: string[] = [];
+            await loadSubtitleFonts(concatData.subtitles, (message) => fontWarnings.push(message));
+            // Como en el worker: el plan solo mapea el audio de los videos que lo tienen
+            const audioWarnings: string[] = [];
+            await detectClipAudio(concatData.clips, (message) => audioWarnings.push(message));
+
+            warnings = [...probeWarnings, ...concatData.warnings, ...encodingWarnings, ...fontWarnings, ...audioWarnings];
+            if (concatData.duration) {
+                // Carpeta ilustrativa: el plan no escribe archivos
+                graph = buildComposeGraph(
+                    concatData,
+                    path.join(process.cwd(), 'data', 'composeVideo', '<id>'),
+                    resolvePreviewSettings(req.body.preview)
+                );
+            } else {
+                warnings.push('El timeline no contiene elementos válidos para renderizar.');
+            }
+        } catch (transformError) {
+            console.error('[POST /api/videos/compose/plan] Step: "transform_clips_failure".', transformError);
+            return res.status(400).json({
+                status: 'error',
+                message: 'Ocurrió un error al transformar los datos de composición.',
+                error: transformError.message
+            });
+        }
+
+        const withSource = <T extends { source: any }>(item: T) => ({ ...item, source: describeMediaSource(item.source) });
+        res.json({
+            clips: concatData.clips.map(withSource),
+            audioTracks: concatData.audioTracks.map(withSource),
+            overlays: concatData.overlays.map((overlay) => (overlay.type === 'image' ? withSource(overlay) : overlay)),
+            subtitles: concatData.subtitles.map((track) => ({ ...track, content: `texto (${track.content.length} caracteres)` })),
+            inputs: graph?.inputs ?? [],
+            filter_complex: graph?.filter ?? null,
+            output_options: graph?.outputOptions ?? [],
+            duration: graph?.duration ?? 0,
+            output_format: concatData.outputFormat,
+            encoding: concatData.encoding,
+            warnings
+        });
+    }
+);
+
+
 /**
  * @swagger
  * /api/videos/status:
@@ -672,12 +1804,44 @@ router.post(
  *                   type: string
  *                 status:
  *                   type: string
+ *                   enum: [queued, in_progress, completed, failed, cancelled]
+ *                 render_mode:
+ *                   type: string
+ *                   enum: [final, preview]
  *                 steps:
  *                   type: array
  *                   items:
  *                     type: string
  *                 video_path:
  *                   type: string
+ *                 download_url:
+ *                   type: string
+ *                   description: Ruta de descarga (GET) mientras el video esté disponible.
+ *                 hls_url:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Con la opción `hls`, ruta (GET) que entrega la URL firmada del master playlist.
+ *                 output_size:
+ *                   type: integer
+ *                   nullable: true
+ *                   description: Tamaño del video en bytes, mientras esté disponible.
+ *                 previews:
+ *                   $ref: '#/components/schemas/CompositionPreviewUrls'
+ *                 progress:
+ *                   $ref: '#/components/schemas/CompositionProgress'
+ *                 webhook:
+ *                   type: object
+ *                   nullable: true
+ *                   properties:
+ *                     url:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       enum: [pending, delivered, failed]
+ *                     attempts:
+ *                       type: array
+ *                       items:
+ *                         type: object
  *                 expiration_time:
  *                   type: string
  *                   format: date-time
@@ -712,8 +1876,21 @@ router.post(
             res.json({
                 id: composition.id,
                 status: composition.status,
+                render_mode: composition.render_mode,
                 steps: JSON.parse(composition.steps || '[]'),
                 video_path: composition.video_path,
+                download_url: composition.video_path ? `/api/videos/${composition.id}/download` : null,
+                hls_url: composition.hls ? `/api/videos/${composition.id}/hls` : null,
+                output_size: getOutputSize(composition.video_path),
+                previews: getPreviewUrls(composition),
+                progress: JSON.parse(composition.progress || 'null'),
+                webhook: composition.callback_url
+                    ? {
+                        url: composition.callback_url,
+                        status: composition.webhook_status,
+                        attempts: JSON.parse(composition.webhook_attempts || '[]')
+                    }
+                    : null,
                 expiration_time: composition.expiration_time,
                 created_at: composition.created_at,
                 updated_at: composition.updated_at
@@ -726,6 +1903,835 @@ router.post(
 );
 
 
+/**
+ * Convierte una fecha al formato en que SQLite guarda `created_at` (CURRENT_TIMESTAMP, UTC),
+ * para poder compararlas como texto.
+ */
+function toSqliteTimestamp(date: Date): string {
+    return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * @swagger
+ * /api/videos:
+ *   get:
+ *     tags: [/api/video]
+ *     summary: Listar composiciones
+ *     description: >
+ *       Lista las composiciones de la más reciente a la más antigua, con filtros por estado y
+ *       rango de `created_at`. La paginación es por cursor: para la página siguiente se envía el
+ *       `next_cursor` de la respuesta anterior (null cuando no hay más resultados).
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         description: Uno o varios estados separados por coma.
+ *         schema:
+ *           type: string
+ *           example: queued,in_progress
+ *       - in: query
+ *         name: render_mode
+ *         schema:
+ *           type: string
+ *           enum: [final, preview]
+ *       - in: query
+ *         name: created_from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: created_to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Página de composiciones.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       status:
+ *                         type: string
+ *                         enum: [queued, in_progress, completed, failed, cancelled]
+ *                       render_mode:
+ *                         type: string
+ *                         enum: [final, preview]
+ *                       steps:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *                       download_url:
+ *                         type: string
+ *                         nullable: true
+ *                       output_size:
+ *                         type: integer
+ *                         nullable: true
+ *                         description: Tamaño del video en bytes, mientras esté disponible.
+ *                       expiration_time:
+ *                         type: string
+ *                         format: date-time
+ *                       created_at:
+ *                         type: string
+ *                         format: date-time
+ *                       updated_at:
+ *                         type: string
+ *                         format: date-time
+ *                 next_cursor:
+ *                   type: string
+ *                   nullable: true
+ *       400:
+ *         description: Filtros o cursor inválidos.
+ *       500:
+ *         description: Error interno al listar las composiciones.
+ */
+router.get(
+    '/api/videos',
+    celebrate({
+        [Segments.QUERY]: Joi.object({
+            status: Joi.string().pattern(/^(queued|in_progress|completed|failed|cancelled)(,(queued|in_progress|completed|failed|cancelled))*$/),
+            created_from: Joi.date().iso(),
+            created_to: Joi.date().iso(),
+            render_mode: Joi.string().valid('final', 'preview'),
+            limit: Joi.number().integer().min(1).max(100).default(20),
+            cursor: Joi.string()
+        })
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { status, render_mode, created_from, created_to, limit, cursor } = req.query as any;
+        try {
+            console.log('[GET /api/videos] Listando composiciones.', req.query);
+
+            await initializeVideoCompositionTable();
+
+            const query = db('video_compositions')
+                .orderBy([{ column: 'created_at', order: 'desc' }, { column: 'id', order: 'desc' }])
+                .limit(limit + 1);
+
+            if (status) {
+                query.whereIn('status', status.split(','));
+            }
+            if (render_mode) {
+                query.where({ render_mode });
+            }
+            if (created_from) {
+                query.where('created_at', '>=', toSqliteTimestamp(created_from));
+            }
+            if (created_to) {
+                query.where('created_at', '<=', toSqliteTimestamp(created_to));
+            }
+            if (cursor) {
+                const position = decodeListCursor(cursor);
+                if (!position) {
+                    return res.status(400).json({ error: 'El cursor de paginación no es válido.' });
+                }
+                const [createdAt, id] = position;
+                query.where((builder) => {
+                    builder
+                        .where('created_at', '<', createdAt)
+                        .orWhere((sameTime) => sameTime.where('created_at', '=', createdAt).andWhere('id', '<', id));
+                });
+            }
+
+            // Se pide un registro extra para saber si hay una página siguiente
+            const rows = await query;
+            const page = rows.slice(0, limit);
+
+            res.json({
+                items: page.map((composition) => ({
+                    id: composition.id,
+                    status: composition.status,
+                    render_mode: composition.render_mode,
+                    steps: JSON.parse(composition.steps || '[]'),
+                    download_url: composition.video_path ? `/api/videos/${composition.id}/download` : null,
+                    output_size: getOutputSize(composition.video_path),
+                    expiration_time: composition.expiration_time,
+                    created_at: composition.created_at,
+                    updated_at: composition.updated_at
+                })),
+                next_cursor: rows.length > limit ? encodeListCursor(page[page.length - 1]) : null
+            });
+        } catch (error: any) {
+            console.error('[GET /api/videos] Error al listar composiciones:', error);
+            res.status(500).json({ error: 'Error interno al listar las composiciones.' });
+        }
+    }
+);
+
+
+/**
+ * @swagger
+ * /api/videos/{id}/cancel:
+ *   post:
+ *     tags: [/api/video]
+ *     summary: Cancelar una composición
+ *     description: >
+ *       Cancela una composición encolada o en proceso: detiene ffmpeg, elimina la salida parcial
+ *       y la carpeta de trabajo, y deja el estado en `cancelled` con el paso `composition_cancelled`.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Composición cancelada.
+ *       404:
+ *         description: No se encontró la composición con el ID proporcionado
+ *       409:
+ *         description: La composición ya terminó (completed, failed o cancelled).
+ *       500:
+ *         description: Error interno al cancelar la composición.
+ */
+router.post(
+    '/api/videos/:id/cancel',
+    celebrate({
+        [Segments.PARAMS]: Joi.object({
+            id: Joi.string().required()
+        })
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { id } = req.params;
+        try {
+            console.log(`[POST /api/videos/:id/cancel] Cancelando composición ID: ${id}.`);
+
+            const { cancelled, previousStatus } = await cancelVideoComposition(id);
+            if (!previousStatus) {
+                return res.status(404).json({ error: 'No existe una composición con ese ID.' });
+            }
+            if (!cancelled) {
+                return res.status(409).json({
+                    error: 'La composición ya terminó y no puede cancelarse.',
+                    status: previousStatus
+                });
+            }
+
+            res.json({
+                id,
+                status: 'cancelled',
+                previous_status: previousStatus
+            });
+        } catch (error: any) {
+            console.error('[POST /api/videos/:id/cancel] Error al cancelar la composición:', error);
+            res.status(500).json({ error: 'Error interno al cancelar la composición.' });
+        }
+    }
+);
+
+
+/**
+ * @swagger
+ * /api/videos/{id}/download:
+ *   get:
+ *     tags: [/api/video]
+ *     summary: Descargar el video de una composición
+ *     description: >
+ *       Transmite el archivo registrado en `video_compositions.video_path`. Soporta peticiones
+ *       con cabecera Range (respuestas 206) para reproducir y adelantar el video, y envía el
+ *       Content-Type según el formato. Con `inline=true` el navegador lo reproduce en lugar de descargarlo.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: inline
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: header
+ *         name: Range
+ *         schema:
+ *           type: string
+ *           example: bytes=0-1048575
+ *     responses:
+ *       200:
+ *         description: Archivo completo, con el Content-Type de `globalSettings.outputFormat`.
+ *         content:
+ *           video/mp4:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           video/quicktime:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           video/webm:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           image/gif:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           image/webp:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           audio/mpeg:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           audio/wav:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *           audio/mp4:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       206:
+ *         description: Rango parcial del archivo.
+ *       404:
+ *         description: No se encontró la composición con el ID proporcionado
+ *       409:
+ *         description: La composición aún no terminó (o falló).
+ *       410:
+ *         description: El video expiró y fue eliminado por el programador de limpieza.
+ *       416:
+ *         description: El rango solicitado no es válido.
+ */
+router.get(
+    '/api/videos/:id/download',
+    celebrate({
+        [Segments.PARAMS]: Joi.object({
+            id: Joi.string().required()
+        }),
+        [Segments.QUERY]: Joi.object({
+            inline: Joi.boolean().default(false)
+        })
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { id } = req.params;
+        try {
+            console.log(`[GET /api/videos/:id/download] Descarga solicitada para la composición ID: ${id}.`);
+
+            const composition = await db('video_compositions').where({ id }).first();
+            if (!composition) {
+                return res.status(404).json({ error: 'No existe una composición con ese ID.' });
+            }
+
+            if (composition.status !== 'completed') {
+                return res.status(409).json({
+                    error: 'La composición no tiene un video disponible.',
+                    status: composition.status
+                });
+            }
+
+            // El programador de limpieza borra el archivo y deja video_path en null
+            if (!composition.video_path || !fs.existsSync(composition.video_path)) {
+                return res.status(410).json({ error: 'El video de esta composición expiró y fue eliminado.' });
+            }
+
+            const filename = `${composition.id}${path.extname(composition.video_path)}`;
+            res.setHeader(
+                'Content-Disposition',
+                `${req.query.inline ? 'inline' : 'attachment'}; filename="${filename}"`
+            );
+
+            // sendFile resuelve Range (206/416), ETag y Last-Modified; el Content-Type es el del
+            // formato de salida (la tabla de mime de express no distingue p.ej. audio/mp4 en .m4a)
+            const contentType = getOutputContentType(composition.video_path);
+            const headers = contentType ? { 'Content-Type': contentType } : undefined;
+            res.sendFile(composition.video_path, { acceptRanges: true, headers }, (error: any) => {
+                if (!error) {
+                    return;
+                }
+                if (res.headersSent) {
+                    console.warn(`[GET /api/videos/:id/download] Transmisión interrumpida (ID: ${id}): ${error.message}`);
+                    return;
+                }
+                console.error(`[GET /api/videos/:id/download] Error al enviar el archivo (ID: ${id}):`, error);
+                res.status(error.status || 500).json({ error: 'No se pudo enviar el video.' });
+            });
+        } catch (error: any) {
+            console.error('[GET /api/videos/:id/download] Error al descargar el video:', error);
+            res.status(500).json({ error: 'Error interno al descargar el video de la composición.' });
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /api/videos/{id}/hls:
+ *   get:
+ *     tags: [/api/video]
+ *     summary: Obtener la URL firmada del empaquetado HLS de una composición
+ *     description: >
+ *       Retorna la URL del master playlist para un reproductor HLS. La URL lleva una firma con
+ *       vencimiento en su ruta, así que no requiere la cabecera Authorization y las playlists y
+ *       segmentos (URIs relativas) heredan el acceso. Deja de funcionar al vencer, al revocarse la
+ *       API key que la pidió o cuando el video expira.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ttl
+ *         description: Vigencia de la URL, en segundos.
+ *         schema:
+ *           type: integer
+ *           default: 3600
+ *           minimum: 60
+ *           maximum: 86400
+ *     responses:
+ *       200:
+ *         description: URL firmada del master playlist.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 master_url:
+ *                   type: string
+ *                   example: /api/hls/0f3c.../1767225600/5b1e.../master.m3u8
+ *                 expires_at:
+ *                   type: string
+ *                   format: date-time
+ *                 segment_duration:
+ *                   type: number
+ *                 renditions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       name:
+ *                         type: string
+ *                         example: 720p
+ *                       height:
+ *                         type: integer
+ *                       video_bitrate:
+ *                         type: integer
+ *                       audio_bitrate:
+ *                         type: integer
+ *       404:
+ *         description: No existe la composición o no se pidió con la opción `hls`.
+ *       409:
+ *         description: La composición aún no terminó (o falló).
+ *       410:
+ *         description: El video expiró y su empaquetado HLS fue eliminado.
+ */
+router.get(
+    '/api/videos/:id/hls',
+    celebrate({
+        [Segments.PARAMS]: Joi.object({
+            id: Joi.string().required()
+        }),
+        [Segments.QUERY]: Joi.object({
+            ttl: Joi.number().integer().min(60).max(86400).default(3600)
+        })
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { id } = req.params;
+        try {
+            const composition = await db('video_compositions').where({ id }).first();
+            if (!composition) {
+                return res.status(404).json({ error: 'No existe una composición con ese ID.' });
+            }
+            if (composition.status !== 'completed') {
+                return res.status(409).json({
+                    error: 'La composición no tiene un video disponible.',
+                    status: composition.status
+                });
+            }
+
+            const hls: CompositionHls | null = JSON.parse(composition.hls || 'null');
+            if (!hls) {
+                // El programador de limpieza deja hls en null junto con video_path
+                return composition.video_path
+                    ? res.status(404).json({ error: 'La composición no se empaquetó como HLS.' })
+                    : res.status(410).json({ error: 'El video de esta composición expiró y fue eliminado.' });
+            }
+
+            const apiKey = req.header('Authorization').split(' ')[1];
+            const expires = Math.floor(Date.now() / 1000) + Number(req.query.ttl);
+            const signature = signHlsAccess(apiKey, id, expires);
+
+            res.json({
+                master_url: `/api/hls/${id}/${expires}/${signature}/${hls.master}`,
+                expires_at: new Date(expires * 1000).toISOString(),
+                segment_duration: hls.segmentDuration,
+                renditions: hls.renditions.map((rendition) => ({
+                    name: rendition.name,
+                    height: rendition.height,
+                    video_bitrate: rendition.videoBitrate,
+                    audio_bitrate: rendition.audioBitrate
+                }))
+            });
+        } catch (error: any) {
+            console.error(`[GET /api/videos/:id/hls] Error al firmar el acceso HLS (ID: ${id}):`, error);
+            res.status(500).json({ error: 'Error interno al obtener el empaquetado HLS.' });
+        }
+    }
+);
+
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CompositionPreviewUrls:
+ *       type: object
+ *       nullable: true
+ *       description: Imágenes generadas con POST /api/videos/{id}/previews. Expiran junto con el video.
+ *       properties:
+ *         poster_url:
+ *           type: string
+ *           nullable: true
+ *         thumbnail_urls:
+ *           type: array
+ *           items:
+ *             type: string
+ *         sprite_url:
+ *           type: string
+ *           nullable: true
+ *         sprite_vtt_url:
+ *           type: string
+ *           nullable: true
+ *           description: Pista WebVTT de miniaturas; cada cue apunta a un recuadro del sprite (#xywh=).
+ */
+
+/**
+ * @swagger
+ * /api/videos/{id}/previews:
+ *   post:
+ *     tags: [/api/video]
+ *     summary: Generar poster, miniaturas y sprite de una composición
+ *     description: >
+ *       Genera, a partir del video de una composición completada, un poster en `poster.time`,
+ *       `thumbnails.count` miniaturas equiespaciadas y/o un sprite con una miniatura cada
+ *       `sprite.interval` junto a su pista WebVTT. Los tiempos están en milisegundos.
+ *       Las imágenes anteriores se reemplazan. El sprite tiene como máximo 300 miniaturas y
+ *       16384 px de lado: si se superan, se alarga el intervalo o se reducen las columnas y se
+ *       informa en `warnings`.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               width:
+ *                 type: integer
+ *                 default: 320
+ *                 description: Ancho de las imágenes (y de cada recuadro del sprite); el alto respeta la relación de aspecto.
+ *               poster:
+ *                 type: object
+ *                 properties:
+ *                   time:
+ *                     type: number
+ *                     default: 0
+ *               thumbnails:
+ *                 type: object
+ *                 properties:
+ *                   count:
+ *                     type: integer
+ *                     default: 5
+ *               sprite:
+ *                 type: object
+ *                 properties:
+ *                   interval:
+ *                     type: number
+ *                     default: 5000
+ *                   columns:
+ *                     type: integer
+ *                     default: 10
+ *     responses:
+ *       200:
+ *         description: Imágenes generadas.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/CompositionPreviewUrls'
+ *                 - type: object
+ *                   properties:
+ *                     warnings:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       description: Ajustes aplicados al sprite.
+ *       404:
+ *         description: No se encontró la composición con el ID proporcionado
+ *       409:
+ *         description: La composición aún no terminó (o falló), o es solo audio.
+ *       410:
+ *         description: El video expiró y fue eliminado por el programador de limpieza.
+ *       500:
+ *         description: Error al generar las imágenes.
+ */
+router.post(
+    '/api/videos/:id/previews',
+    celebrate({
+        [Segments.PARAMS]: Joi.object({
+            id: Joi.string().required()
+        }),
+        [Segments.BODY]: Joi.object({
+            width: Joi.number().integer().min(16).max(1920).default(320),
+            poster: Joi.object({
+                time: Joi.number().min(0).default(0)
+            }),
+            thumbnails: Joi.object({
+                count: Joi.number().integer().min(1).max(50).default(5)
+            }),
+            sprite: Joi.object({
+                interval: Joi.number().min(100).default(5000),
+                columns: Joi.number().integer().min(1).max(50).default(10)
+            })
+        }).or('poster', 'thumbnails', 'sprite')
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { id } = req.params;
+        try {
+            console.log(`[POST /api/videos/:id/previews] Generando imágenes de la composición ID: ${id}.`);
+
+            const composition = await db('video_compositions').where({ id }).first();
+            if (!composition) {
+                return res.status(404).json({ error: 'No existe una composición con ese ID.' });
+            }
+            if (composition.status !== 'completed') {
+                return res.status(409).json({
+                    error: 'La composición no tiene un video disponible.',
+                    status: composition.status
+                });
+            }
+            if (!composition.video_path || !fs.existsSync(composition.video_path)) {
+                return res.status(410).json({ error: 'El video de esta composición expiró y fue eliminado.' });
+            }
+            if (getOutputContentType(composition.video_path)?.startsWith('audio/')) {
+                return res.status(409).json({ error: 'La composición es solo audio; no tiene imágenes que extraer.' });
+            }
+
+            const warnings: string[] = [];
+            const previews = await generateCompositionPreviews(id, composition.video_path, req.body as PreviewOptions, (message) => {
+                console.warn(`[POST /api/videos/:id/previews] ${message} (ID: ${id})`);
+                warnings.push(message);
+            });
+            await db('video_compositions').where({ id }).update({ previews: JSON.stringify(previews) });
+            await updateVideoCompositionProgress(id, { steps: ['previews_generated'] });
+
+            res.json({ ...getPreviewUrls({ id, previews: JSON.stringify(previews) }), warnings });
+        } catch (error: any) {
+            console.error(`[POST /api/videos/:id/previews] Error al generar las imágenes (ID: ${id}):`, error);
+            res.status(500).json({ error: 'Error interno al generar las imágenes de la composición.', message: error.message });
+        }
+    }
+);
+
+/**
+ * @swagger
+ * /api/videos/{id}/previews/{file}:
+ *   get:
+ *     tags: [/api/video]
+ *     summary: Descargar una imagen (o la pista WebVTT) de una composición
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: file
+ *         required: true
+ *         schema:
+ *           type: string
+ *           example: poster.jpg
+ *     responses:
+ *       200:
+ *         description: Archivo solicitado (image/jpeg o text/vtt).
+ *       404:
+ *         description: La composición o el archivo no existen (o ya expiraron).
+ */
+router.get(
+    '/api/videos/:id/previews/:file',
+    celebrate({
+        [Segments.PARAMS]: Joi.object({
+            id: Joi.string().required(),
+            file: Joi.string().required()
+        })
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { id, file } = req.params;
+        try {
+            const composition = await db('video_compositions').where({ id }).first();
+            const previews: CompositionPreviews | null = JSON.parse(composition?.previews || 'null');
+
+            // Solo se sirven los archivos registrados, nunca una ruta arbitraria
+            if (!previews || !listPreviewFiles(previews).includes(file)) {
+                return res.status(404).json({ error: 'No existe esa imagen para la composición.' });
+            }
+
+            res.sendFile(path.join(previews.folder, file), (error: any) => {
+                if (error && !res.headersSent) {
+                    console.error(`[GET /api/videos/:id/previews/:file] Error al enviar ${file} (ID: ${id}):`, error);
+                    res.status(error.status || 500).json({ error: 'No se pudo enviar el archivo.' });
+                }
+            });
+        } catch (error: any) {
+            console.error('[GET /api/videos/:id/previews/:file] Error al descargar la imagen:', error);
+            res.status(500).json({ error: 'Error interno al descargar la imagen de la composición.' });
+        }
+    }
+);
+
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CompositionProgress:
+ *       type: object
+ *       nullable: true
+ *       description: Último avance del render reportado por ffmpeg.
+ *       properties:
+ *         percent:
+ *           type: number
+ *           description: 0-100, tiempo renderizado sobre la duración del timeline.
+ *         frame:
+ *           type: number
+ *         fps:
+ *           type: number
+ *         eta_seconds:
+ *           type: number
+ *           nullable: true
+ *         out_time:
+ *           type: number
+ *           description: Segundos de video ya renderizados.
+ */
+
+/**
+ * @swagger
+ * /api/videos/{id}/events:
+ *   get:
+ *     tags: [/api/video]
+ *     summary: Stream (SSE) del avance de una composición
+ *     description: >
+ *       Server-Sent Events con el avance de la composición. Al conectarse se envía un evento
+ *       `status` con el estado actual; luego `step` (pasos agregados y cambios de estado) y
+ *       `progress` (CompositionProgress) hasta que la composición termina, cuando se envía `end`
+ *       y se cierra el stream. Cada 15 segundos se envía un comentario para mantener la conexión.
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Stream de eventos.
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: No se encontró la composición con el ID proporcionado
+ */
+router.get(
+    '/api/videos/:id/events',
+    celebrate({
+        [Segments.PARAMS]: Joi.object({
+            id: Joi.string().required()
+        })
+    }),
+    async (req: Request, res: Response): Promise<any> => {
+        const { id } = req.params;
+        try {
+            const exists = await db('video_compositions').where({ id }).first('id');
+            if (!exists) {
+                return res.status(404).json({ error: 'No existe una composición con ese ID.' });
+            }
+
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                Connection: 'keep-alive',
+                // Evita que proxies como nginx acumulen los eventos
+                'X-Accel-Buffering': 'no'
+            });
+
+            const sendEvent = (event: string, data: any) => {
+                res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+            };
+
+            let closed = false;
+            let unsubscribe = () => {};
+            const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+            const close = () => {
+                if (closed) {
+                    return;
+                }
+                closed = true;
+                clearInterval(heartbeat);
+                unsubscribe();
+                res.end();
+            };
+            res.on('close', close);
+
+            // Nos suscribimos antes de leer el estado para no perder eventos intermedios
+            unsubscribe = subscribeToComposition(id, (event) => {
+                if (event.type === 'progress') {
+                    sendEvent('progress', event.progress);
+                    return;
+                }
+
+                sendEvent('step', { steps: event.steps, status: event.status ?? null });
+                if (event.status && FINAL_COMPOSITION_STATUSES.includes(event.status)) {
+                    sendEvent('end', { status: event.status });
+                    close();
+                }
+            });
+
+            const composition = await db('video_compositions').where({ id }).first();
+            sendEvent('status', {
+                id: composition.id,
+                status: composition.status,
+                steps: JSON.parse(composition.steps || '[]'),
+                progress: JSON.parse(composition.progress || 'null')
+            });
+
+            if (FINAL_COMPOSITION_STATUSES.includes(composition.status)) {
+                sendEvent('end', { status: composition.status });
+                close();
+            }
+        } catch (error: any) {
+            console.error('[GET /api/videos/:id/events] Error en el stream de eventos:', error);
+            if (!res.headersSent) {
+                res.status(500).json({ error: 'Error interno al abrir el stream de eventos.' });
+            } else {
+                res.end();
+            }
+        }
+    }
+);
+
+
 
 export const api_router_video = router;
 export default router;
@@ -0,0 +1,235 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import KnexDatabase from "../server/KnexDatabase";
+import { MediaProbe, probeMedia } from './media_probe';
+
+
+const db = KnexDatabase;
+
+// Extensión de los archivos de la biblioteca según su Content-Type, si el nombre no la indica
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+    'video/mp4': '.mp4',
+    'video/quicktime': '.mov',
+    'video/webm': '.webm',
+    'video/x-matroska': '.mkv',
+    'audio/mpeg': '.mp3',
+    'audio/mp3': '.mp3',
+    'audio/wav': '.wav',
+    'audio/x-wav': '.wav',
+    'audio/mp4': '.m4a',
+    'audio/ogg': '.ogg',
+    'image/png': '.png',
+    'image/jpeg': '.jpg',
+    'image/gif': '.gif',
+    'image/webp': '.webp',
+    'text/vtt': '.vtt',
+    'application/x-subrip': '.srt'
+};
+
+/**
+ * Registro de la tabla "media_assets". El id es el SHA-256 del contenido, así que un mismo
+ * archivo subido varias veces se guarda una sola vez.
+ */
+export type MediaAssetRecord = {
+    id: string;
+    filename: string | null;
+    content_type: string | null;
+    extension: string;
+    size: number;
+    probe: string | null;
+    created_at: string;
+    updated_at: string;
+};
+
+/**
+ * Carpeta de los archivos de la biblioteca, compartida por todas las composiciones.
+ */
+export function getAssetsFolder(): string {
+    return path.join(process.cwd(), 'data', 'assets');
+}
+
+/**
+ * Ruta del archivo de un asset de la biblioteca (`<sha256><extensión>`).
+ */
+export function getAssetFilePath(record: MediaAssetRecord): string {
+    return path.join(getAssetsFolder(), `${record.id}${record.extension}`);
+}
+
+/**
+ * Inicializa la tabla "media_assets" si no existe.
+ */
+export async function initializeMediaAssetTable(): Promise<void> {
+    try {
+        const exists = await db.schema.hasTable('media_assets');
+        if (!exists) {
+            console.log('[DB] Creando tabla "media_assets"...');
+            await db.schema.createTable('media_assets', (table) => {
+                table.string('id').primary(); // SHA-256 del contenido
+                table.string('filename').nullable();
+                table.string('content_type').nullable();
+                table.string('extension').notNullable().defaultTo('');
+                table.bigInteger('size').notNullable();
+                table.json('probe').nullable();
+                table.timestamps(true, true);
+                table.index(['created_at']);
+            });
+            console.log('[DB] Tabla "media_assets" creada con éxito.');
+        }
+    } catch (error) {
+        console.error('[DB] Error al inicializar la tabla "media_assets":', error);
+        throw error;
+    }
+}
+
+/**
+ * Representación pública de un asset de la biblioteca.
+ */
+export function formatMediaAsset(record: MediaAssetRecord) {
+    return {
+        id: record.id,
+        filename: record.filename,
+        content_type: record.content_type,
+        size: Number(record.size),
+        probe: record.probe ? (JSON.parse(record.probe) as MediaProbe) : null,
+        created_at: record.created_at,
+        updated_at: record.updated_at
+    };
+}
+
+/**
+ * Extensión del archivo guardado: la del nombre original o, si no tiene, la de su Content-Type.
+ */
+function resolveAssetExtension(filename: string | null, contentType: string | null): string {
+    const fromName = filename ? path.extname(filename).toLowerCase() : '';
+    if (/^\.[a-z0-9]{1,8}$/.test(fromName)) {
+        return fromName;
+    }
+    const mime = (contentType || '').split(';')[0].trim().toLowerCase();
+    return CONTENT_TYPE_EXTENSIONS[mime] ?? '';
+}
+
+export async function findMediaAsset(id: string): Promise<MediaAssetRecord | undefined> {
+    return db('media_assets').where({ id }).first();
+}
+
+/**
+ * Guarda un archivo en la biblioteca. Si ya existe un asset con el mismo contenido se retorna
+ * ese registro (`created: false`) sin volver a escribirlo. Los archivos nuevos se analizan con
+ * ffprobe; si no es un archivo multimedia (p.ej. subtítulos) `probe` queda en null.
+ */
+export async function storeMediaAsset(
+    buffer: Buffer,
+    metadata: { filename: string | null; contentType: string | null }
+): Promise<{ record: MediaAssetRecord; created: boolean }> {
+    const id = crypto.createHash('sha256').update(buffer).digest('hex');
+
+    const existing = await findMediaAsset(id);
+    if (existing) {
+        console.log(`[AssetLibrary] El asset ${id} ya existe; se reutiliza.`);
+        return { record: existing, created: false };
+    }
+
+    const extension = resolveAssetExtension(metadata.filename, metadata.contentType);
+    const filePath = path.join(getAssetsFolder(), `${id}${extension}`);
+    await fs.promises.mkdir(getAssetsFolder(), { recursive: true });
+
+    // Se escribe en un temporal y se renombra, para no dejar archivos a medias con el nombre final
+    const tempPath = `${filePath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.writeFile(tempPath, buffer);
+    await fs.promises.rename(tempPath, filePath);
+
+    let probe: MediaProbe | null = null;
+    try {
+        probe = await probeMedia(filePath);
+    } catch (error: any) {
+        console.warn(`[AssetLibrary] No se pudo analizar el asset ${id} con ffprobe:`, error.message);
+    }
+
+    // Dos subidas simultáneas del mismo archivo escriben el mismo contenido; gana el primer registro
+    await db('media_assets')
+        .insert({
+            id,
+            filename: metadata.filename,
+            content_type: metadata.contentType,
+            extension,
+            size: buffer.length,
+            probe: probe ? JSON.stringify(probe) : null
+        })
+        .onConflict('id')
+        .ignore();
+
+    console.log(`[AssetLibrary] Asset ${id} guardado (${buffer.length} bytes).`);
+    return { record: await findMediaAsset(id), created: true };
+}
+
+/**
+ * Elimina un asset de la biblioteca (registro y archivo).
+ */
+export async function deleteMediaAsset(record: MediaAssetRecord): Promise<void> {
+    await db('media_assets').where({ id: record.id }).delete();
+    await fs.promises.rm(getAssetFilePath(record), { force: true });
+    console.log(`[AssetLibrary] Asset ${record.id} eliminado.`);
+}
+
+/**
+ * Indica si alguna composición encolada o en proceso usa el asset. El payload encolado guarda
+ * el `assetRef` (y la ruta del archivo), así que basta con buscar el id en él.
+ */
+export async function isMediaAssetInUse(id: string): Promise<boolean> {
+    if (!(await db.schema.hasTable('video_compositions'))) {
+        return false;
+    }
+    const composition = await db('video_compositions')
+        .whereIn('status', ['queued', 'in_progress'])
+        .andWhere('payload', 'like', `%${id}%`)
+        .first();
+    return !!composition;
+}
+
+/**
+ * Resuelve los `source.assetRef` de los assets de una composición contra la biblioteca:
+ * - Videos, audios e imágenes pasan a leer el archivo local (`source.path`), sin volver a
+ *   transferirlo. Los subtítulos se cargan en `source.content`.
+ * - Si falta `aspecs.duration` se toma del probe guardado (lo que queda desde `startTrim`),
+ *   y se guarda el resumen en `asset.probe` como en applyMediaProbe.
+ * Modifica los assets recibidos. Lanza un error si una referencia no existe o si el asset
+ * sigue sin duración.
+ */
+export async function resolveAssetRefs(assets: any[]): Promise<void> {
+    const referenced = assets.filter((asset) => asset.source?.assetRef);
+    if (!referenced.length) {
+        return;
+    }
+    await initializeMediaAssetTable();
+
+    for (const asset of referenced) {
+        const ref = asset.source.assetRef;
+        if (asset.type === 'text') {
+            throw new Error(`El asset de texto ${asset.id} no puede usar 'source.assetRef'; envíe 'source.content'.`);
+        }
+
+        const record = await findMediaAsset(ref);
+        if (!record) {
+            throw new Error(`El asset ${asset.id} referencia '${ref}', que no existe en la biblioteca.`);
+        }
+
+        const filePath = getAssetFilePath(record);
+        asset.source = asset.type === 'subtitle'
+            ? { assetRef: ref, content: await fs.promises.readFile(filePath, 'utf8') }
+            : { assetRef: ref, path: filePath };
+
+        const probe: MediaProbe | null = record.probe ? JSON.parse(record.probe) : null;
+        if (probe && (asset.type === 'video' || asset.type === 'audio')) {
+            asset.probe = { duration: probe.duration, has_audio: !!probe.audio };
+            if (asset.aspecs.duration === undefined && probe.duration_ms !== null) {
+                asset.aspecs.duration = Math.max(0, probe.duration_ms - asset.aspecs.startTrim);
+            }
+        }
+        if (asset.aspecs.duration === undefined && asset.type !== 'subtitle') {
+            throw new Error(`El asset ${asset.id} no tiene 'aspecs.duration' y la biblioteca no conoce la duración de '${ref}'.`);
+        }
+
+        console.log(`[resolveAssetRefs] Asset ${asset.id} resuelto desde la biblioteca: ${ref}.`);
+    }
+}
@@ -0,0 +1,23 @@
+/**
+ * Cursor de paginación de los listados (GET /api/videos, GET /api/assets): created_at e id del
+ * último elemento de la página, codificados en base64url. Los listados se ordenan por
+ * created_at DESC, id DESC, así que el id desempata los registros creados en el mismo segundo.
+ */
+export function encodeListCursor(record: { created_at: string; id: string }): string {
+    return Buffer.from(JSON.stringify([record.created_at, record.id])).toString('base64url');
+}
+
+/**
+ * Posición [created_at, id] de un cursor de encodeListCursor, o null si no es válido.
+ */
+export function decodeListCursor(cursor: string): [string, string] | null {
+    try {
+        const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+        if (Array.isArray(decoded) && decoded.length === 2 && decoded.every((value) => typeof value === 'string')) {
+            return decoded as [string, string];
+        }
+    } catch {
+        // cursor inválido
+    }
+    return null;
+}
@@ -0,0 +1,252 @@
+import ffmpeg from 'fluent-ffmpeg';
+import ffprobeStatic from 'ffprobe-static';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { fetchRemoteFile } from './remote_fetch';
+import { decodeBase64Data, getFileExtension } from './SingleApi';
+import { MediaSource, resolveMediaSource, VideoClip } from './video_compose_graph';
+
+ffmpeg.setFfprobePath(ffprobeStatic.path);
+
+
+/**
+ * Metadata normalizada de un archivo multimedia. Las duraciones están en segundos,
+ * salvo `duration_ms`, en la unidad de `aspecs.duration`.
+ */
+export type MediaProbe = {
+    format: string | null;
+    duration: number | null;
+    duration_ms: number | null;
+    size: number | null;
+    bit_rate: number | null;
+    video: {
+        codec: string | null;
+        width: number;
+        height: number;
+        fps: number | null;
+        rotation: number;
+        pix_fmt: string | null;
+    } | null;
+    audio: {
+        codec: string | null;
+        channels: number;
+        channel_layout: string | null;
+        sample_rate: number | null;
+    } | null;
+    streams: Array<{ index: number; type: string; codec: string | null }>;
+};
+
+/**
+ * Resumen del probe que se guarda en el asset (`asset.probe`) al componer con
+ * `globalSettings.probe`, para que el render sepa, p.ej., si un video tiene audio.
+ */
+export type AssetProbeSummary = {
+    duration: number | null;
+    has_audio: boolean;
+};
+
+/**
+ * Convierte un número de ffprobe (que llega como texto o "N/A") a number, o null.
+ */
+function toNumber(value: any): number | null {
+    const parsed = Number(value);
+    return value !== undefined && value !== 'N/A' && Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Frame rate a partir de una fracción de ffprobe ("30000/1001").
+ */
+function parseFrameRate(rate: string | undefined): number | null {
+    const [num, den] = (rate || '').split('/').map(Number);
+    if (!num || !den) {
+        return null;
+    }
+    return Math.round((num / den) * 1000) / 1000;
+}
+
+/**
+ * Rotación del video: según la versión del muxer viene en el tag "rotate" o en la side data
+ * de la matriz de visualización (con el signo invertido).
+ */
+function parseRotation(stream: any): number {
+    const tag = toNumber(stream.tags?.rotate);
+    if (tag !== null) {
+        return tag;
+    }
+    const sideData = (stream.side_data_list || []).find((data: any) => data.rotation !== undefined);
+    return sideData ? -Number(sideData.rotation) || 0 : 0;
+}
+
+function normalizeProbe(data: ffmpeg.FfprobeData): MediaProbe {
+    const video = data.streams.find((stream) => stream.codec_type === 'video' && !stream.disposition?.attached_pic);
+    const audio = data.streams.find((stream) => stream.codec_type === 'audio');
+    const duration = toNumber(data.format.duration);
+
+    return {
+        format: data.format.format_name ?? null,
+        duration,
+        duration_ms: duration !== null ? Math.round(duration * 1000) : null,
+        size: toNumber(data.format.size),
+        bit_rate: toNumber(data.format.bit_rate),
+        video: video
+            ? {
+                codec: video.codec_name ?? null,
+                width: video.width,
+                height: video.height,
+                fps: parseFrameRate(video.avg_frame_rate) ?? parseFrameRate(video.r_frame_rate),
+                rotation: parseRotation(video),
+                pix_fmt: video.pix_fmt ?? null
+            }
+            : null,
+        audio: audio
+            ? {
+                codec: audio.codec_name ?? null,
+                channels: audio.channels,
+                channel_layout: audio.channel_layout ?? null,
+                sample_rate: toNumber(audio.sample_rate)
+            }
+            : null,
+        streams: data.streams.map((stream) => ({
+            index: stream.index,
+            type: stream.codec_type,
+            codec: stream.codec_name ?? null
+        }))
+    };
+}
+
+/**
+ * Ejecuta ffprobe sobre una ruta local.
+ */
+export async function probeMedia(input: string): Promise<MediaProbe> {
+    const data = await new Promise<ffmpeg.FfprobeData>((resolve, reject) => {
+        ffmpeg.ffprobe(input, (err, metadata) => (err ? reject(err) : resolve(metadata)));
+    });
+    return normalizeProbe(data);
+}
+
+/**
+ * Ejecuta ffprobe sobre un buffer. Se escribe en un archivo temporal (ffprobe necesita
+ * poder recorrer el archivo, p.ej. un mp4 con el índice al final) que se elimina al terminar.
+ */
+export async function probeBuffer(buffer: Buffer, extension = ''): Promise<MediaProbe> {
+    const tempPath = path.join(os.tmpdir(), `probe-${crypto.randomBytes(8).toString('hex')}${extension}`);
+    await fs.promises.writeFile(tempPath, buffer);
+    try {
+        return await probeMedia(tempPath);
+    } finally {
+        await fs.promises.rm(tempPath, { force: true });
+    }
+}
+
+/**
+ * Ejecuta ffprobe sobre el origen de un asset (archivo de la biblioteca, URL, base64 o data URL).
+ * Las URLs se descargan con remote_fetch.ts (listas de hosts, IPs privadas en cada redirección,
+ * tamaño y tiempo máximos) y se analiza la copia local: ffprobe no recibe URLs. La descarga queda
+ * en la caché, así que el render posterior no vuelve a bajar el archivo.
+ */
+export async function probeMediaSource(source: MediaSource): Promise<MediaProbe> {
+    if (source.path) {
+        return probeMedia(source.path);
+    }
+    if (source.url) {
+        // Junto a la caché (en data/), para que la copia sea un hard link y no un archivo duplicado
+        const probeFolder = path.join(process.cwd(), 'data', 'probe');
+        await fs.promises.mkdir(probeFolder, { recursive: true });
+        const folder = await fs.promises.mkdtemp(path.join(probeFolder, 'source-'));
+        try {
+            return await probeMedia(await fetchRemoteFile(source.url, folder, 'source'));
+        } finally {
+            await fs.promises.rm(folder, { recursive: true, force: true });
+        }
+    }
+    return probeBuffer(decodeBase64Data(source.data_base64), getFileExtension(source.data_base64, ''));
+}
+
+/**
+ * Completa los assets de video y audio con los datos de ffprobe (`globalSettings.probe`):
+ * - Si falta `aspecs.duration`, se usa lo que queda del archivo desde `startTrim`.
+ * - `startTrim` se limita a la duración real, y `duration` a lo que queda desde `startTrim`.
+ * - Se guarda el resumen en `asset.probe`.
+ * Modifica los assets recibidos. Retorna advertencias para el cliente; si el probe falla se
+ * conservan los valores enviados, y si falta la duración se lanza un error.
+ */
+export async function applyMediaProbe(assets: any[]): Promise<string[]> {
+    const warnings: string[] = [];
+
+    for (const asset of assets) {
+        if (asset.type !== 'video' && asset.type !== 'audio') {
+            // Los subtítulos sin duración se muestran hasta el final de la composición
+            if (asset.aspecs.duration === undefined && asset.type !== 'subtitle') {
+                throw new Error(`El asset ${asset.id} es de tipo ${asset.type}; debe indicar 'aspecs.duration'.`);
+            }
+            continue;
+        }
+        const source = resolveMediaSource(asset.source);
+        if (!source) {
+            continue;
+        }
+
+        let probe: MediaProbe;
+        try {
+            probe = await probeMediaSource(source);
+        } catch (error: any) {
+            console.warn(`[applyMediaProbe] No se pudo analizar el asset ${asset.id}:`, error.message);
+            warnings.push(`No se pudo analizar el asset ${asset.id} con ffprobe: ${error.message}`);
+            if (asset.aspecs.duration === undefined) {
+                throw new Error(`El asset ${asset.id} no tiene 'aspecs.duration' y no se pudo obtener con ffprobe.`);
+            }
+            continue;
+        }
+
+        asset.probe = { duration: probe.duration, has_audio: !!probe.audio } as AssetProbeSummary;
+        if (probe.duration_ms === null) {
+            if (asset.aspecs.duration === undefined) {
+                throw new Error(`ffprobe no informó la duración del asset ${asset.id}; envíe 'aspecs.duration'.`);
+            }
+            continue;
+        }
+
+        if (asset.aspecs.startTrim >= probe.duration_ms) {
+            warnings.push(
+                `El startTrim del asset ${asset.id} (${asset.aspecs.startTrim} ms) supera su duración (${probe.duration_ms} ms); se usará 0.`
+            );
+            asset.aspecs.startTrim = 0;
+        }
+
+        const remaining = probe.duration_ms - asset.aspecs.startTrim;
+        if (asset.aspecs.duration === undefined) {
+            asset.aspecs.duration = remaining;
+        } else if (asset.aspecs.duration > remaining) {
+            warnings.push(
+                `La duración del asset ${asset.id} (${asset.aspecs.duration} ms) supera lo disponible desde startTrim; se ajustó a ${remaining} ms.`
+            );
+            asset.aspecs.duration = remaining;
+        }
+    }
+
+    return warnings;
+}
+
+
+/**
+ * Completa `hasAudio` en los clips de video que no se analizaron al encolar (sin
+ * `globalSettings.probe`), para que el render no mapee el audio de un video que no lo tiene.
+ * Si el probe falla, el clip se compone sin audio y se informa con `onWarning`.
+ */
+export async function detectClipAudio(clips: VideoClip[], onWarning: (message: string) => void): Promise<void> {
+    for (const clip of clips) {
+        if (clip.hasAudio !== undefined) {
+            continue;
+        }
+        try {
+            const probe = await probeMediaSource(clip.source);
+            clip.hasAudio = !!probe.audio;
+        } catch (error: any) {
+            console.warn(`[detectClipAudio] No se pudo analizar el asset ${clip.assetId}:`, error.message);
+            clip.hasAudio = false;
+            onWarning(`No se pudo analizar el audio del asset ${clip.assetId} con ffprobe; se compondrá sin audio: ${error.message}`);
+        }
+    }
+}
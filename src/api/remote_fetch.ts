@@ -0,0 +1,432 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import dns from 'dns';
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { ENV } from '../server/global_variables';
+import type { ConcatCompositionData, ImageOverlay, MediaSource } from './video_compose_graph';
+
+
+// Redirecciones máximas de una descarga (cada salto se valida igual que la URL original)
+const MAX_REDIRECTS = 5;
+
+/**
+ * Entrada de la caché de descargas (`<sha256 de la URL>.json`). El archivo se nombra con la URL
+ * y su ETag (o Last-Modified), así que un cambio en el origen genera un archivo nuevo.
+ */
+type RemoteCacheEntry = {
+    url: string;
+    etag: string | null;
+    last_modified: string | null;
+    file: string;
+    size: number;
+    content_type: string | null;
+    last_used_at: string;
+};
+
+/**
+ * Resultado de una descarga: el archivo en la caché (`cached`) o un temporal que debe moverse
+ * o eliminarse, cuando el origen no envía ETag ni Last-Modified.
+ */
+type RemoteDownload = {
+    file: string;
+    cached: boolean;
+    extension: string;
+    contentType: string | null;
+};
+
+// Rangos de red interna, loopback, link-local, etc., que no se descargan salvo REMOTE_FETCH_ALLOW_PRIVATE
+const blockedRanges = new net.BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4]
+] as const) {
+    blockedRanges.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+    ['::', 128],
+    ['::1', 128],
+    ['fc00::', 7],
+    ['fe80::', 10],
+    ['ff00::', 8]
+] as const) {
+    blockedRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+// Rangos IPv6 cuyos últimos 32 bits son una IPv4: mapeadas (::ffff:0:0/96), NAT64 (64:ff9b::/96)
+// e IPv4-compatibles (::/96). Se validan según la IPv4 que transportan.
+const ipv4EmbeddingRanges = new net.BlockList();
+for (const network of ['::ffff:0:0', '64:ff9b::', '::']) {
+    ipv4EmbeddingRanges.addSubnet(network, 96, 'ipv6');
+}
+
+/**
+ * Carpeta de la caché de descargas, compartida por todas las composiciones.
+ */
+export function getRemoteCacheFolder(): string {
+    return path.join(process.cwd(), 'data', 'remoteCache');
+}
+
+function hashKey(value: string): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * IPv4 de los últimos 32 bits de una IPv6 válida, escrita con grupos hexadecimales
+ * (`::ffff:7f00:1`) o con la notación decimal (`::ffff:127.0.0.1`).
+ */
+function trailingIpv4(address: string): string {
+    const dotted = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+    if (dotted) {
+        return dotted[1];
+    }
+    const groups = address.split(':');
+    const [high, low] = groups.slice(-2).map((group) => parseInt(group || '0', 16));
+    return [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.');
+}
+
+/**
+ * Indica si una IP pertenece a un rango privado o reservado. Las IPv6 que transportan una
+ * IPv4 (mapeadas, NAT64 o IPv4-compatibles, en cualquier notación) se validan según esa IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+    const family = net.isIP(address);
+    if (!family) {
+        return true;
+    }
+    if (family === 6 && ipv4EmbeddingRanges.check(address, 'ipv6')) {
+        return blockedRanges.check(trailingIpv4(address), 'ipv4');
+    }
+    return blockedRanges.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Compara un host con un patrón de las listas: exacto, o "*.dominio.com" para el dominio
+ * y todos sus subdominios.
+ */
+function matchesHost(hostname: string, pattern: string): boolean {
+    const host = hostname.toLowerCase();
+    const expected = pattern.toLowerCase();
+    if (expected.startsWith('*.')) {
+        return host === expected.slice(2) || host.endsWith(expected.slice(1));
+    }
+    return host === expected;
+}
+
+/**
+ * Valida el esquema y el host de una URL contra las listas de ENV. Las IPs literales se
+ * validan aquí; los nombres se validan al resolverlos (ver lookupPublicAddresses).
+ * `useAllowlist` en false omite REMOTE_FETCH_ALLOWED_HOSTS, que solo limita los orígenes de medios.
+ */
+function assertHostAllowed(url: URL, useAllowlist = true): void {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Solo se permiten URLs http o https: ${url.href}`);
+    }
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (ENV.REMOTE_FETCH_DENIED_HOSTS.some((pattern) => matchesHost(hostname, pattern))) {
+        throw new Error(`El host ${hostname} no está permitido.`);
+    }
+    if (
+        useAllowlist &&
+        ENV.REMOTE_FETCH_ALLOWED_HOSTS.length &&
+        !ENV.REMOTE_FETCH_ALLOWED_HOSTS.some((pattern) => matchesHost(hostname, pattern))
+    ) {
+        throw new Error(`El host ${hostname} no está en la lista de hosts permitidos.`);
+    }
+    if (net.isIP(hostname) && !ENV.REMOTE_FETCH_ALLOW_PRIVATE && isPrivateAddress(hostname)) {
+        throw new Error(`La dirección ${hostname} es privada o reservada.`);
+    }
+}
+
+/**
+ * Resuelve un host y falla si alguna de sus direcciones es privada. Se usa como `lookup` de la
+ * conexión, así que la IP validada es la misma a la que se conecta (sin DNS rebinding).
+ */
+async function lookupPublicAddresses(hostname: string): Promise<Array<{ address: string; family: 4 | 6 }>> {
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    if (!ENV.REMOTE_FETCH_ALLOW_PRIVATE) {
+        const blocked = addresses.find((entry) => isPrivateAddress(entry.address));
+        if (blocked) {
+            throw new Error(`El host ${hostname} resuelve a una dirección privada o reservada (${blocked.address}).`);
+        }
+    }
+    return addresses.map((entry) => ({ address: entry.address, family: entry.family === 6 ? 6 : 4 }));
+}
+
+/**
+ * Valida la URL de un webhook (`callbackUrl`): esquema, hosts denegados e IPs privadas, como
+ * las descargas, pero sin la allowlist de orígenes de medios. Se usa al recibir la composición
+ * y, junto con callbackRequestGuards, en cada entrega.
+ */
+export async function assertCallbackUrlAllowed(url: string): Promise<void> {
+    const parsed = new URL(url);
+    assertHostAllowed(parsed, false);
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '');
+    if (!net.isIP(hostname)) {
+        await lookupPublicAddresses(hostname);
+    }
+}
+
+/**
+ * Opciones de axios para las peticiones a un `callbackUrl`: la conexión usa la IP validada al
+ * resolver el host (sin DNS rebinding) y no se siguen redirecciones.
+ */
+export const callbackRequestGuards = {
+    maxRedirects: 0,
+    lookup: async (hostname: string) => [await lookupPublicAddresses(hostname)]
+};
+
+async function readCacheEntry(entryPath: string): Promise<RemoteCacheEntry | null> {
+    try {
+        const entry: RemoteCacheEntry = JSON.parse(await fs.promises.readFile(entryPath, 'utf8'));
+        // Si el archivo ya no existe la entrada no sirve para una petición condicional
+        await fs.promises.access(path.join(getRemoteCacheFolder(), entry.file));
+        return entry;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Extensión del archivo según la ruta de la URL (p.ej. ".mp4"), o vacía si no tiene una válida.
+ */
+function urlExtension(url: URL): string {
+    const extension = path.extname(url.pathname).toLowerCase();
+    return /^\.[a-z0-9]{1,8}$/.test(extension) ? extension : '';
+}
+
+/**
+ * Descarga una URL respetando las listas de hosts, el bloqueo de IPs privadas (también en cada
+ * redirección), el tamaño máximo y el tiempo máximo de ENV. Si hay una copia en la caché se
+ * revalida con If-None-Match / If-Modified-Since y, ante un 304, no se vuelve a descargar.
+ * `signal` permite abortar la descarga (p.ej. al cancelar la composición).
+ */
+async function downloadRemote(url: string, signal?: AbortSignal): Promise<RemoteDownload> {
+    const parsed = new URL(url);
+    assertHostAllowed(parsed);
+    if (signal?.aborted) {
+        throw new Error(`La descarga de ${url} se canceló.`);
+    }
+
+    const cacheFolder = getRemoteCacheFolder();
+    await fs.promises.mkdir(cacheFolder, { recursive: true });
+    const entryPath = path.join(cacheFolder, `${hashKey(url)}.json`);
+    const cached = await readCacheEntry(entryPath);
+
+    const headers: Record<string, string> = {};
+    if (cached?.etag) {
+        headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.last_modified) {
+        headers['If-Modified-Since'] = cached.last_modified;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), ENV.REMOTE_FETCH_TIMEOUT);
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    const tempPath = path.join(cacheFolder, `${crypto.randomBytes(8).toString('hex')}.tmp`);
+    try {
+        const response = await axios.get(url, {
+            responseType: 'stream',
+            signal: controller.signal,
+            headers,
+            maxRedirects: MAX_REDIRECTS,
+            validateStatus: (status) => status === 200 || (status === 304 && !!cached),
+            lookup: async (hostname: string) => [await lookupPublicAddresses(hostname)],
+            beforeRedirect: (options) => assertHostAllowed(new URL(options.href))
+        });
+
+        if (response.status === 304) {
+            response.data.destroy();
+            const entry: RemoteCacheEntry = { ...cached, last_used_at: new Date().toISOString() };
+            await fs.promises.writeFile(entryPath, JSON.stringify(entry));
+            console.log(`[RemoteFetch] Sin cambios, se usa la caché: ${url}`);
+            return {
+                file: path.join(cacheFolder, cached.file),
+                cached: true,
+                extension: path.extname(cached.file),
+                contentType: cached.content_type
+            };
+        }
+
+        const declaredSize = Number(response.headers['content-length']);
+        if (declaredSize > ENV.REMOTE_FETCH_MAX_BYTES) {
+            response.data.destroy();
+            throw new Error(`El archivo de ${url} (${declaredSize} bytes) supera el máximo de ${ENV.REMOTE_FETCH_MAX_BYTES} bytes.`);
+        }
+
+        // El Content-Length puede faltar o mentir: el límite se controla mientras se descarga
+        let received = 0;
+        const limiter = new Transform({
+            transform(chunk: Buffer, _encoding, callback) {
+                received += chunk.length;
+                callback(
+                    received > ENV.REMOTE_FETCH_MAX_BYTES
+                        ? new Error(`El archivo de ${url} supera el máximo de ${ENV.REMOTE_FETCH_MAX_BYTES} bytes.`)
+                        : null,
+                    chunk
+                );
+            }
+        });
+        await pipeline(response.data, limiter, fs.createWriteStream(tempPath));
+
+        const etag = (response.headers['etag'] as string) ?? null;
+        const lastModified = (response.headers['last-modified'] as string) ?? null;
+        const contentType = (response.headers['content-type'] as string) ?? null;
+        const extension = urlExtension(parsed);
+        console.log(`[RemoteFetch] Descargado ${url} (${received} bytes).`);
+
+        if (!etag && !lastModified) {
+            return { file: tempPath, cached: false, extension, contentType };
+        }
+
+        const file = `${hashKey(`${url}\n${etag ?? lastModified}`)}${extension}`;
+        await fs.promises.rename(tempPath, path.join(cacheFolder, file));
+        if (cached && cached.file !== file) {
+            await fs.promises.rm(path.join(cacheFolder, cached.file), { force: true });
+        }
+        const entry: RemoteCacheEntry = {
+            url,
+            etag,
+            last_modified: lastModified,
+            file,
+            size: received,
+            content_type: contentType,
+            last_used_at: new Date().toISOString()
+        };
+        await fs.promises.writeFile(entryPath, JSON.stringify(entry));
+        return { file: path.join(cacheFolder, file), cached: true, extension, contentType };
+    } catch (error: any) {
+        await fs.promises.rm(tempPath, { force: true });
+        if (signal?.aborted) {
+            throw new Error(`La descarga de ${url} se canceló.`);
+        }
+        if (controller.signal.aborted) {
+            throw new Error(`La descarga de ${url} superó el tiempo máximo de ${ENV.REMOTE_FETCH_TIMEOUT} ms.`);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abort);
+    }
+}
+
+/**
+ * Descarga una URL en `folder` como `<name><extensión>` y retorna la ruta. Los archivos de la
+ * caché se enlazan (hard link) o se copian, para que borrar la carpeta de la composición no
+ * afecte a la caché.
+ */
+export async function fetchRemoteFile(url: string, folder: string, name: string, signal?: AbortSignal): Promise<string> {
+    const download = await downloadRemote(url, signal);
+    const destination = path.join(folder, `${name}${download.extension}`);
+    await fs.promises.rm(destination, { force: true });
+
+    if (!download.cached) {
+        await fs.promises.rename(download.file, destination);
+    } else {
+        await fs.promises.link(download.file, destination).catch(() => fs.promises.copyFile(download.file, destination));
+    }
+    return destination;
+}
+
+/**
+ * Descarga una URL y retorna su contenido en memoria (subtítulos, archivos para la biblioteca).
+ */
+export async function fetchRemoteBuffer(
+    url: string,
+    signal?: AbortSignal
+): Promise<{ data: Buffer; contentType: string | null }> {
+    const download = await downloadRemote(url, signal);
+    try {
+        return { data: await fs.promises.readFile(download.file), contentType: download.contentType };
+    } finally {
+        if (!download.cached) {
+            await fs.promises.rm(download.file, { force: true });
+        }
+    }
+}
+
+/**
+ * Descarga en la carpeta de la composición todos los orígenes remotos (`source.url`) de clips,
+ * overlays de imagen y pistas de audio, y los reemplaza por el archivo local. Una misma URL
+ * usada por varios elementos se descarga una sola vez. Modifica `compositionData`.
+ * `signal` aborta la descarga en curso y las siguientes.
+ */
+export async function fetchCompositionSources(
+    compositionData: ConcatCompositionData,
+    folderPath: string,
+    signal?: AbortSignal
+): Promise<void> {
+    const fetched = new Map<string, string>();
+    const items: Array<{ source: MediaSource }> = [
+        ...compositionData.clips,
+        ...compositionData.overlays.filter((overlay): overlay is ImageOverlay => overlay.type === 'image'),
+        ...compositionData.audioTracks
+    ];
+
+    for (const item of items) {
+        const { url } = item.source;
+        if (!url) {
+            continue;
+        }
+        if (!fetched.has(url)) {
+            fetched.set(url, await fetchRemoteFile(url, folderPath, `remote_${fetched.size}`, signal));
+        }
+        item.source = { path: fetched.get(url) };
+    }
+}
+
+/**
+ * Elimina de la caché las descargas que no se usan hace más de REMOTE_FETCH_CACHE_TTL, y los
+ * temporales de descargas interrumpidas.
+ */
+export async function cleanRemoteCache(): Promise<void> {
+    const cacheFolder = getRemoteCacheFolder();
+    if (!fs.existsSync(cacheFolder)) {
+        return;
+    }
+
+    const now = Date.now();
+    let removed = 0;
+    for (const name of await fs.promises.readdir(cacheFolder)) {
+        const filePath = path.join(cacheFolder, name);
+        try {
+            if (name.endsWith('.tmp')) {
+                const { mtimeMs } = await fs.promises.stat(filePath);
+                if (now - mtimeMs > ENV.REMOTE_FETCH_TIMEOUT * 2) {
+                    await fs.promises.rm(filePath, { force: true });
+                }
+                continue;
+            }
+            if (!name.endsWith('.json')) {
+                continue;
+            }
+
+            const entry: RemoteCacheEntry = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+            if (now - Date.parse(entry.last_used_at) > ENV.REMOTE_FETCH_CACHE_TTL) {
+                await fs.promises.rm(path.join(cacheFolder, entry.file), { force: true });
+                await fs.promises.rm(filePath, { force: true });
+                removed++;
+            }
+        } catch (error) {
+            console.error(`[RemoteFetch] Error al limpiar la entrada de caché ${name}:`, error);
+        }
+    }
+
+    if (removed) {
+        console.log(`[RemoteFetch] ${removed} descargas eliminadas de la caché.`);
+    }
+}
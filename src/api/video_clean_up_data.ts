@@ -1,6 +1,9 @@
 import * as fs from 'fs';
 import KnexDatabase from "../server/KnexDatabase";
 import { initializeVideoCompositionTable } from './VideoAPI';
+import { cleanRemoteCache } from './remote_fetch';
+import { removeCompositionHls } from './video_hls';
+import { removeCompositionPreviews } from './video_previews';
 
 
 // videoDataRouter.ts
@@ -10,7 +13,11 @@ const db = KnexDatabase;
 // Intervalo de 15 minutos (en milisegundos)
 const CLEANUP_INTERVAL = 15 * 60 * 1000;
 
-async function cleanExpiredVideos(): Promise<void> {
+/**
+ * Elimina el video, las imágenes y el HLS de las composiciones expiradas, y deja sus rutas en null
+ * (la descarga responde 410 desde entonces).
+ */
+export async function cleanExpiredVideos(): Promise<void> {
     try {
         console.log(`[Cleanup] Programador iniciado. Iniciando limpieza de videos expirados... Ejecutando cada ${CLEANUP_INTERVAL / 60000} minutos.`);
 
@@ -40,12 +47,36 @@ async function cleanExpiredVideos(): Promise<void> {
                 console.error(`[Cleanup] Error eliminando archivo ${record.video_path}:`, fileError);
             }
 
+            // Las imágenes (poster, miniaturas, sprite) expiran junto con el video
+            const previews = JSON.parse(record.previews || 'null');
+            if (previews) {
+                try {
+                    await removeCompositionPreviews(previews.folder);
+                    console.log(`[Cleanup] Imágenes eliminadas: ${previews.folder}`);
+                } catch (previewsError) {
+                    console.error(`[Cleanup] Error eliminando imágenes ${previews.folder}:`, previewsError);
+                }
+            }
+
+            // El empaquetado HLS (master y segmentos) también
+            const hls = JSON.parse(record.hls || 'null');
+            if (hls) {
+                try {
+                    await removeCompositionHls(hls.folder);
+                    console.log(`[Cleanup] HLS eliminado: ${hls.folder}`);
+                } catch (hlsError) {
+                    console.error(`[Cleanup] Error eliminando HLS ${hls.folder}:`, hlsError);
+                }
+            }
+
             // Actualizar registro
             await db('video_compositions')
                 .where({ id: record.id })
                 .update({
                     video_path: null,
-                    expiration_time: null
+                    expiration_time: null,
+                    previews: null,
+                    hls: null
                 });
         }
 
@@ -57,12 +88,24 @@ async function cleanExpiredVideos(): Promise<void> {
 }
 
 
+/**
+ * Limpieza periódica: videos expirados y descargas de la caché remota sin uso reciente.
+ */
+async function runCleanup(): Promise<void> {
+    await cleanExpiredVideos();
+    try {
+        await cleanRemoteCache();
+    } catch (error) {
+        console.error('[Cleanup] Error al limpiar la caché de descargas:', error);
+    }
+}
+
 // Iniciar programador cuando el servidor arranque
 export function startVideoCleanupScheduler() {
     // Ejecutar inmediatamente al inicio
-    cleanExpiredVideos();
+    runCleanup();
 
     // Programar ejecución periódica
-    setInterval(cleanExpiredVideos, CLEANUP_INTERVAL);
+    setInterval(runCleanup, CLEANUP_INTERVAL);
 }
 
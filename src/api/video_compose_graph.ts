@@ -0,0 +1,1104 @@
+import path from 'path';
+import { decodeBase64Data, getFileExtension } from './SingleApi';
+import { buildEncodingOptions, resolveEncodingSettings } from './video_encoding';
+import { FONT_NAME_PATTERN, isFontFile, resolveFontPath } from './video_fonts';
+import { ANIMATION_PRESETS, Keyframe, keyframeExpression, presetKeyframes, resolveKeyframes } from './video_keyframes';
+import {
+    animatedImageLoopOptions,
+    OUTPUT_FORMATS,
+    OutputFormat,
+    resolveAnimatedImageSettings
+} from './video_output_formats';
+import {
+    buildSubtitleForceStyle,
+    formatSrt,
+    parseSubtitles,
+    shiftCues,
+    SubtitleCue,
+    SubtitleStyle,
+    toAssColor
+} from './video_subtitles';
+
+
+/**
+ * Transición resuelta de un elemento del timeline (duración en segundos).
+ */
+export type ClipTransition = {
+    type: 'fade' | 'slide';
+    duration: number;
+    direction: 'left' | 'right' | 'up' | 'down';
+};
+
+// Duración por defecto de una transición sin `duration` (ms)
+const DEFAULT_TRANSITION_DURATION_MS = 500;
+
+// Formato de audio común al que se normalizan todas las fuentes antes de mezclarlas
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_CHANNEL_LAYOUT = 'stereo';
+
+/**
+ * Modo de ajuste de una entrada a su caja (el lienzo o `aspecs.resolution`):
+ * - contain: escala sin recortar y rellena con bandas transparentes (letterbox).
+ * - cover: escala hasta cubrir la caja y recorta el excedente.
+ * - stretch: escala a la caja sin conservar la relación de aspecto.
+ */
+export type FitMode = 'contain' | 'cover' | 'stretch';
+
+/**
+ * Origen de un asset multimedia (video/audio/imagen): una URL, datos en base64 (con o sin
+ * prefijo data URL) que se decodifican en la carpeta de la composición, o un archivo local de
+ * la biblioteca de assets (`path`, resuelto desde `source.assetRef` por resolveAssetRefs).
+ */
+export type MediaSource = { url?: string; data_base64?: string; path?: string };
+
+// Extensión por defecto de los archivos decodificados, si el prefijo data URL no la indica
+const DEFAULT_MEDIA_EXTENSIONS: Record<string, string> = {
+    video: '.mp4',
+    audio: '.mp3',
+    image: '.png'
+};
+
+/**
+ * Ubicación de un elemento visual en la línea de tiempo final.
+ * - timelineStart/duration: en segundos.
+ * - layer: capa (z-index); las capas mayores se dibujan encima.
+ * - keyframes: animación del elemento (`keyframes` del timeline o el preset de `animation`).
+ */
+type TimelinePlacement = {
+    assetId: string;
+    layer: number;
+    timelineStart: number;
+    duration: number;
+    position?: { x?: number; y?: number };
+    transitionIn: ClipTransition | null;
+    transitionOut: ClipTransition | null;
+    keyframes: Keyframe[];
+};
+
+/**
+ * Clip de video. `start` es el recorte (trim) dentro del archivo de origen.
+ */
+export type VideoClip = TimelinePlacement & {
+    type: 'video';
+    source: MediaSource;
+    start: number;
+    resolution?: { width: number; height: number };
+    fit: FitMode;
+    volume?: number;
+    // Si el video tiene audio según ffprobe; undefined mientras no se analizó (ver detectClipAudio)
+    hasAudio?: boolean;
+    // Factor de velocidad (effects.speed); `duration` ya es la duración en el timeline
+    speed: number;
+    // Segundos que el clip se extiende debajo del siguiente para el crossfade (ver applyClipCrossfades)
+    crossfadeOut?: number;
+};
+
+/**
+ * Overlay de texto (drawtext).
+ */
+export type TextOverlay = TimelinePlacement & {
+    type: 'text';
+    content: string;
+    font?: string;
+    fontSize?: number;
+    color?: string;
+};
+
+/**
+ * Overlay de imagen.
+ * Sin `fit` la imagen conserva su tamaño original (logos, stickers).
+ */
+export type ImageOverlay = TimelinePlacement & {
+    type: 'image';
+    source: MediaSource;
+    resolution?: { width: number; height: number };
+    fit?: FitMode;
+};
+
+export type CompositionOverlay = TextOverlay | ImageOverlay;
+
+/**
+ * Pista de audio independiente (música, voz en off) que se mezcla con el audio de los clips.
+ * - start/duration: recorte dentro del archivo de origen (segundos).
+ * - timelineStart: instante de la línea de tiempo final en que empieza a sonar (segundos).
+ * - volume: multiplicador lineal (1 = volumen original).
+ * - fadeIn/fadeOut: duración de los fundidos (segundos), tomada de transitionIn/transitionOut.
+ */
+export type AudioTrack = {
+    assetId: string;
+    source: MediaSource;
+    start: number;
+    duration: number;
+    timelineStart: number;
+    volume?: number;
+    fadeIn?: number;
+    fadeOut?: number;
+    speed: number;
+};
+
+/**
+ * Pista de subtítulos (asset "subtitle").
+ * - content: texto SRT o WebVTT; null hasta descargar `url` (ver loadSubtitleSources).
+ * - offset: desplazamiento de los tiempos del archivo a la línea de tiempo final (startTime - startTrim).
+ * - timelineStart/duration: ventana en que se muestran (segundos); sin `duration`, hasta el final.
+ * - mode: "burn" los dibuja sobre el video; "soft" los agrega como pista seleccionable.
+ * - language: código ISO 639-2 de la pista "soft" (p.ej. "spa").
+ */
+export type SubtitleTrack = {
+    assetId: string;
+    content: string | null;
+    url: string | null;
+    offset: number;
+    timelineStart: number;
+    duration: number | null;
+    mode: 'burn' | 'soft';
+    language?: string;
+    style: SubtitleStyle;
+};
+
+/**
+ * Combina la transición del asset con la del override del timeline (el override gana).
+ * Retorna null si ninguna de las dos define un `type`.
+ */
+function resolveTransition(assetTransition: any, overrideTransition: any): ClipTransition | null {
+    const merged = { ...assetTransition, ...overrideTransition };
+    if (!merged.type) {
+        return null;
+    }
+
+    return {
+        type: merged.type,
+        duration: (merged.duration ?? DEFAULT_TRANSITION_DURATION_MS) / 1000,
+        direction: merged.direction ?? 'left'
+    };
+}
+
+/**
+ * Obtiene el origen de un asset multimedia. Se acepta el archivo de la biblioteca (`source.path`),
+ * `source.url`, `source.data_base64` o `source.content` cuando este último es un data URL
+ * (`data:<mime>;base64,...`). Retorna null si el asset no tiene ningún origen utilizable.
+ */
+export function resolveMediaSource(source: any): MediaSource | null {
+    if (source?.path) {
+        return { path: source.path };
+    }
+    if (source?.url) {
+        return { url: source.url };
+    }
+    if (source?.data_base64) {
+        return { data_base64: source.data_base64 };
+    }
+    if (typeof source?.content === 'string' && /^data:[^;]+;base64,/.test(source.content)) {
+        return { data_base64: source.content };
+    }
+    return null;
+}
+
+/**
+ * Describe un origen para los logs sin volcar el base64 completo.
+ */
+export function describeMediaSource(source: MediaSource): string {
+    if (source.path) {
+        return `biblioteca (${path.basename(source.path)})`;
+    }
+    return source.url ?? `base64 (${source.data_base64.length} caracteres)`;
+}
+
+/**
+ * Resuelve la pista de un asset "subtitle" ubicado en el timeline. El texto inline se valida
+ * aquí; el de una URL se descarga antes del render (ver loadSubtitleSources).
+ * Los colores no reconocidos se reemplazan por el valor por defecto y se reportan con `warn`.
+ * Retorna null (y lo reporta) si la pista no puede usarse.
+ */
+function resolveSubtitleTrack(
+    asset: any,
+    item: any,
+    globalSettings: any,
+    warn: (message: string) => void
+): SubtitleTrack | null {
+    const content = asset.source?.content ?? null;
+    const url = content === null ? asset.source?.url ?? null : null;
+    if (content === null && !url) {
+        warn(`El asset de subtítulos ${asset.id} no tiene 'source.content' ni 'source.url'. Se omitirá.`);
+        return null;
+    }
+    if (content !== null && !parseSubtitles(content).length) {
+        warn(`El asset de subtítulos ${asset.id} no contiene cues SRT/WebVTT válidos. Se omitirá.`);
+        return null;
+    }
+
+    const options = asset.aspecs.subtitle ?? {};
+    const canvasHeight = globalSettings.resolution.height;
+    const color = (value: string | undefined, fallback: string, field: string) => {
+        const converted = value !== undefined ? toAssColor(value) : null;
+        if (value !== undefined && !converted) {
+            warn(`El color '${value}' (${field}) de los subtítulos ${asset.id} no es válido; se usará ${fallback}.`);
+        }
+        return converted ?? (toAssColor(fallback) as string);
+    };
+
+    return {
+        assetId: asset.id,
+        content,
+        url,
+        offset: (item.startTime - (asset.aspecs.startTrim ?? 0)) / 1000,
+        timelineStart: item.startTime / 1000,
+        duration: asset.aspecs.duration !== undefined ? asset.aspecs.duration / 1000 : null,
+        mode: options.mode ?? 'burn',
+        language: options.language,
+        style: {
+            // Un archivo de fuente se resuelve a su familia antes del render (ver loadSubtitleFonts)
+            font: asset.aspecs.font && !isFontFile(asset.aspecs.font) ? asset.aspecs.font : undefined,
+            fontFile: asset.aspecs.font && isFontFile(asset.aspecs.font) ? asset.aspecs.font : undefined,
+            fontSize: asset.aspecs.fontSize ?? Math.round(canvasHeight * 0.05),
+            color: color(asset.aspecs.color, 'white', 'color'),
+            outlineColor: color(options.outlineColor, 'black', 'subtitle.outlineColor'),
+            outline: options.outline ?? 2,
+            backgroundColor: options.backgroundColor
+                ? color(options.backgroundColor, 'black@0.5', 'subtitle.backgroundColor')
+                : null,
+            position: options.position ?? 'bottom',
+            margin: options.margin ?? Math.round(canvasHeight * 0.05)
+        }
+    };
+}
+
+/**
+ * Transforma la data (assets/timeline/globalSettings) en la lista de clips de video,
+ * pistas de audio, overlays (texto/imagen) y subtítulos ubicados en la línea de tiempo final.
+ * La duración de la composición es el final del último elemento del timeline (sin contar los subtítulos).
+ * Los elementos omitidos se reportan en `warnings` (además de loggearse).
+ * Se añade try/catch interno para capturar fallos potenciales.
+ */
+export function transformToConcatClips(assets: any[], timeline: any[], globalSettings: any) {
+    try {
+        console.log('[transformToConcatClips] Iniciando transformación de datos para ffmpeg.');
+
+        const sortedTimeline = [...timeline].sort((a, b) => a.startTime - b.startTime);
+        const outputFormat = (globalSettings.outputFormat ?? 'mp4') as OutputFormat;
+        const format = OUTPUT_FORMATS[outputFormat];
+
+        const clips: VideoClip[] = [];
+        const audioTracks: AudioTrack[] = [];
+        const overlays: CompositionOverlay[] = [];
+        const subtitles: SubtitleTrack[] = [];
+        const warnings: string[] = [];
+        let duration = 0;
+
+        const skip = (message: string) => {
+            console.warn(`[transformToConcatClips] ${message}`);
+            warnings.push(message);
+        };
+
+        for (const item of sortedTimeline) {
+            const asset = assets.find((a) => a.id === item.assetId);
+            if (!asset) {
+                skip(`No se encontró el asset con id: ${item.assetId}. Se omitirá.`);
+                continue;
+            }
+
+            // Los formatos de solo audio no admiten elementos visuales
+            if (format.kind === 'audio' && asset.type !== 'audio') {
+                throw new Error(
+                    `El formato '${outputFormat}' es solo audio; la composición no puede incluir el asset ${asset.id} de tipo ${asset.type}.`
+                );
+            }
+
+            // Los subtítulos no ocupan una capa ni extienden la duración de la composición
+            if (asset.type === 'subtitle') {
+                const track = resolveSubtitleTrack(asset, item, globalSettings, skip);
+                if (track?.mode === 'soft' && !format.subtitleCodec) {
+                    skip(`El formato '${outputFormat}' no admite subtítulos "soft"; se omitirán los subtítulos ${asset.id}.`);
+                } else if (track) {
+                    subtitles.push(track);
+                    console.log(
+                        `[transformToConcatClips] Subtítulos agregados: ${asset.id} | mode=${track.mode} | timelineStart=${track.timelineStart}s.`
+                    );
+                }
+                continue;
+            }
+
+            // `aspecs.duration` es el tramo del archivo; con `effects.speed` en el timeline ocupa
+            // duration / speed, y la duración de la composición se calcula con ese valor
+            const speed = ['video', 'audio'].includes(asset.type)
+                ? item.override?.effects?.speed ?? asset.aspecs.effects?.speed ?? 1
+                : 1;
+            const startSeconds = (asset.aspecs.startTrim ?? 0) / 1000;
+            const durationSeconds = asset.aspecs.duration / 1000 / speed;
+            const transitionIn = resolveTransition(asset.aspecs.effects?.transitionIn, item.override?.effects?.transitionIn);
+            const transitionOut = resolveTransition(asset.aspecs.effects?.transitionOut, item.override?.effects?.transitionOut);
+
+            const mediaSource = asset.type === 'text' ? null : resolveMediaSource(asset.source);
+
+            // Los keyframes del timeline tienen prioridad sobre el preset de `animation`.
+            // "slide-in" se resuelve como transición de entrada si no hay otra definida.
+            let animation = item.override?.effects?.animation ?? asset.aspecs.effects?.animation;
+            if (animation !== undefined && !(ANIMATION_PRESETS as readonly string[]).includes(animation)) {
+                warnings.push(
+                    `La animación '${animation}' del asset ${asset.id} no existe (${ANIMATION_PRESETS.join(', ')}); se ignorará.`
+                );
+                animation = undefined;
+            }
+            const keyframes = item.keyframes?.length
+                ? resolveKeyframes(item.keyframes)
+                : presetKeyframes(animation, durationSeconds);
+
+            // La posición del timeline (override) tiene prioridad sobre la del asset
+            const placement: TimelinePlacement = {
+                assetId: asset.id,
+                layer: item.layer ?? 0,
+                timelineStart: item.startTime / 1000,
+                duration: durationSeconds,
+                position: { ...asset.aspecs.position, ...item.override?.position },
+                transitionIn: transitionIn ?? (animation === 'slide-in' ? resolveTransition({ type: 'slide' }, null) : null),
+                transitionOut,
+                keyframes
+            };
+
+            if (asset.type === 'text' && keyframes.some((keyframe) => keyframe.rotation !== undefined)) {
+                warnings.push(`El texto ${asset.id} no admite rotación; se ignorarán los keyframes de rotation.`);
+            }
+
+            if (asset.type !== 'text' && !mediaSource) {
+                skip(
+                    `El asset ${asset.id} no tiene 'source.url', 'source.data_base64', 'source.assetRef' ni un data URL en 'source.content'. No se agregará al proceso.`
+                );
+                continue;
+            }
+
+            if (asset.type === 'video') {
+                clips.push({
+                    ...placement,
+                    type: 'video',
+                    source: mediaSource,
+                    start: startSeconds,
+                    resolution: asset.aspecs.resolution,
+                    fit: asset.aspecs.fit ?? globalSettings.fit ?? 'contain',
+                    volume: asset.aspecs.volume,
+                    hasAudio: asset.probe?.has_audio,
+                    speed
+                });
+                console.log(
+                    `[transformToConcatClips] Clip agregado: ${asset.id} | src=${describeMediaSource(mediaSource)} | start=${startSeconds}s | timelineStart=${placement.timelineStart}s | duration=${durationSeconds}s | layer=${placement.layer}.`
+                );
+            } else if (asset.type === 'audio') {
+                // Las transiciones de un audio solo pueden ser fundidos (afade), sin importar el tipo
+                audioTracks.push({
+                    assetId: asset.id,
+                    source: mediaSource,
+                    start: startSeconds,
+                    duration: durationSeconds,
+                    timelineStart: placement.timelineStart,
+                    volume: asset.aspecs.volume,
+                    fadeIn: transitionIn?.duration,
+                    fadeOut: transitionOut?.duration,
+                    speed
+                });
+                console.log(
+                    `[transformToConcatClips] Pista de audio agregada: ${asset.id} | src=${describeMediaSource(mediaSource)} | timelineStart=${placement.timelineStart}s | duration=${durationSeconds}s.`
+                );
+            } else if (asset.type === 'text') {
+                if (!asset.source?.content) {
+                    skip(`El asset de texto ${asset.id} no tiene 'source.content'. Se omitirá.`);
+                    continue;
+                }
+
+                overlays.push({
+                    ...placement,
+                    type: 'text',
+                    content: asset.source.content,
+                    font: asset.aspecs.font,
+                    fontSize: asset.aspecs.fontSize,
+                    color: asset.aspecs.color
+                });
+                console.log(
+                    `[transformToConcatClips] Overlay de texto agregado: ${asset.id} | timelineStart=${placement.timelineStart}s | duration=${durationSeconds}s | layer=${placement.layer}.`
+                );
+            } else if (asset.type === 'image') {
+                overlays.push({
+                    ...placement,
+                    type: 'image',
+                    source: mediaSource,
+                    resolution: asset.aspecs.resolution,
+                    // Con `resolution` y sin `fit` explícito se mantiene el escalado exacto
+                    fit: asset.aspecs.fit ?? (asset.aspecs.resolution ? 'stretch' : undefined)
+                });
+                console.log(
+                    `[transformToConcatClips] Overlay de imagen agregado: ${asset.id} | timelineStart=${placement.timelineStart}s | duration=${durationSeconds}s | layer=${placement.layer}.`
+                );
+            } else {
+                skip(`Ignorando asset ${asset.id} de tipo ${asset.type}.`);
+                continue;
+            }
+
+            duration = Math.max(duration, placement.timelineStart + durationSeconds);
+        }
+
+        for (const asset of assets) {
+            if (!timeline.some((item) => item.assetId === asset.id)) {
+                warnings.push(`El asset ${asset.id} no se usa en el timeline.`);
+            }
+        }
+
+        if (format.kind === 'animation' && (audioTracks.length || clips.some((clip) => clip.hasAudio !== false))) {
+            warnings.push(`El formato '${outputFormat}' no tiene audio; se ignorará el audio de la composición.`);
+        }
+
+        const fps = (globalSettings.fps ?? 30) as number;
+
+        // Retornamos el objeto con los elementos del timeline, su duración y el formato
+        return {
+            clips,
+            audioTracks,
+            overlays,
+            subtitles,
+            duration,
+            resolution: globalSettings.resolution as { width: number; height: number },
+            fps,
+            backgroundColor: (globalSettings.backgroundColor ?? 'black') as string,
+            outputFormat,
+            animatedImage: resolveAnimatedImageSettings(globalSettings.animatedImage),
+            encoding: resolveEncodingSettings(outputFormat, globalSettings.encoding, fps),
+            warnings
+        };
+    } catch (error) {
+        console.error('[transformToConcatClips] Error al transformar datos:', error);
+        throw error;
+    }
+}
+
+export type ConcatCompositionData = ReturnType<typeof transformToConcatClips>;
+
+/**
+ * Ajustes de un render de previsualización (opción `preview` del JSON de composición).
+ * Los tiempos están en segundos; `end` null significa hasta el final del timeline.
+ */
+export type PreviewSettings = {
+    height: number;
+    fps: number;
+    start: number;
+    end: number | null;
+};
+
+const DEFAULT_PREVIEW_HEIGHT = 360;
+const DEFAULT_PREVIEW_FPS = 15;
+
+/**
+ * Normaliza la opción `preview` (true o un objeto con height/fps/range en ms).
+ * Retorna null si no se pidió una previsualización.
+ */
+export function resolvePreviewSettings(preview: any): PreviewSettings | null {
+    if (!preview) {
+        return null;
+    }
+    const options = preview === true ? {} : preview;
+    return {
+        height: options.height ?? DEFAULT_PREVIEW_HEIGHT,
+        fps: options.fps ?? DEFAULT_PREVIEW_FPS,
+        start: (options.range?.start ?? 0) / 1000,
+        end: options.range?.end !== undefined ? options.range.end / 1000 : null
+    };
+}
+
+/**
+ * Grafo de ffmpeg listo para ejecutar.
+ * - inputs: entradas en orden (el índice es el usado en el filtro, p.ej. "[2:v]").
+ * - filter: filter_complex completo.
+ * - outputs: salidas del filtro que se mapean: [outv] y/o [outa], según el formato de salida.
+ * - outputOptions: códecs del formato y opciones de salida adicionales (p.ej. el mapeo de las
+ *   pistas de subtítulos).
+ * - files: archivos auxiliares que deben escribirse antes de ejecutar ffmpeg.
+ * - duration: duración esperada de la salida (segundos).
+ */
+export type ComposeGraph = {
+    inputs: Array<{ src: string; options: string[] }>;
+    filter: string;
+    outputs: string[];
+    outputOptions: string[];
+    files: Array<{ path: string; content: string | Buffer }>;
+    duration: number;
+};
+
+/**
+ * Escapa una ruta para usarla como valor de opción dentro de un filtro de ffmpeg
+ * (los ":" separan opciones y las "\" son caracteres de escape).
+ */
+function escapeFilterPath(filePath: string): string {
+    return filePath.replace(/\\/g, '/').replace(/:/g, '\\:');
+}
+
+/**
+ * Ruta de entrada de ffmpeg para un origen multimedia. Los archivos de la biblioteca y las
+ * URLs se usan tal cual; los datos en base64 se decodifican en `folderPath` (con la extensión
+ * detectada del prefijo data URL, como en getFileExtension) y el archivo se agrega a `files`
+ * para escribirlo antes del render.
+ */
+function mediaInputPath(
+    source: MediaSource,
+    folderPath: string,
+    name: string,
+    defaultExt: string,
+    files: ComposeGraph['files']
+): string {
+    if (source.path || source.url) {
+        return source.path ?? source.url;
+    }
+
+    const filePath = path.join(folderPath, `${name}${getFileExtension(source.data_base64, defaultExt)}`);
+    files.push({ path: filePath, content: decodeBase64Data(source.data_base64) });
+    return filePath;
+}
+
+/**
+ * Opciones de entrada de una imagen que se muestra durante `duration` segundos. Las imágenes
+ * fijas (demuxer image2) se repiten con `-loop 1`; el demuxer de GIF no tiene esa opción, así
+ * que la animación se repite con `-stream_loop -1`. En ambos casos `-t` limita la duración.
+ */
+function imageInputOptions(src: string, duration: number): string[] {
+    const extension = path.extname(src.split(/[?#]/)[0]).toLowerCase();
+    const loop = extension === '.gif' ? ['-stream_loop', '-1'] : ['-loop', '1'];
+    return [...loop, '-t', String(duration)];
+}
+
+/**
+ * Expresión de la ventana de visibilidad de un elemento (opción `enable`). La ventana es
+ * semiabierta [inicio, fin): `between` incluye ambos extremos y dos elementos consecutivos
+ * se superpondrían durante un frame.
+ */
+function enableExpression(item: TimelinePlacement): string {
+    return `enable='gte(t,${item.timelineStart})*lt(t,${item.timelineStart + item.duration})'`;
+}
+
+/**
+ * Expresión de posición sobre un eje, incluyendo el desplazamiento de las transiciones "slide".
+ * La dirección indica hacia dónde se mueve el elemento: al entrar llega desde el borde opuesto
+ * y al salir se va hacia ese borde. `size` es la dimensión del lienzo en ese eje (W o H).
+ */
+function slidePositionExpression(item: TimelinePlacement, axis: 'x' | 'y', base: string | number): string {
+    const size = axis === 'x' ? 'W' : 'H';
+    const axisDirections = axis === 'x' ? ['left', 'right'] : ['up', 'down'];
+    const terms = [`${base}`];
+
+    const { transitionIn, transitionOut } = item;
+    if (transitionIn?.type === 'slide' && axisDirections.includes(transitionIn.direction)) {
+        const from = transitionIn.direction === axisDirections[0] ? size : `-${size}`;
+        const progress = `clip((t-${item.timelineStart})/${transitionIn.duration},0,1)`;
+        terms.push(`${from}*(1-${progress})`);
+    }
+    if (transitionOut?.type === 'slide' && axisDirections.includes(transitionOut.direction)) {
+        const to = transitionOut.direction === axisDirections[0] ? `-${size}` : size;
+        const outStart = item.timelineStart + item.duration - transitionOut.duration;
+        const progress = `clip((t-${outStart})/${transitionOut.duration},0,1)`;
+        terms.push(`${to}*${progress}`);
+    }
+
+    // Las expresiones con comas (p.ej. las de keyframes) deben ir entre comillas
+    return terms.length === 1 && !`${base}`.includes(',')
+        ? `${base}`
+        : `'${terms.join('+').replace(/\+-/g, '-')}'`;
+}
+
+/**
+ * Fundidos de transparencia (fade con alpha) de un elemento, relativos a su propio inicio.
+ * Sobre el fondo equivalen a fundidos desde/hacia el color de fondo y, sobre otro clip que
+ * sigue visible debajo (ver applyClipCrossfades), a un crossfade.
+ */
+function alphaFadeFilters(item: TimelinePlacement): string[] {
+    const filters: string[] = [];
+    if (item.transitionIn?.type === 'fade') {
+        const duration = Math.min(item.transitionIn.duration, item.duration);
+        filters.push(`fade=t=in:st=0:d=${duration}:alpha=1`);
+    }
+    if (item.transitionOut?.type === 'fade') {
+        const duration = Math.min(item.transitionOut.duration, item.duration);
+        filters.push(`fade=t=out:st=${item.duration - duration}:d=${duration}:alpha=1`);
+    }
+    return filters;
+}
+
+// Tolerancia para considerar que un clip empieza justo donde termina el anterior (segundos)
+const ADJACENT_CLIP_TOLERANCE = 0.001;
+
+/**
+ * Convierte en crossfades las transiciones entre clips de video consecutivos de una misma capa
+ * (el siguiente empieza donde termina el anterior). Como con xfade/acrossfade, la transición es
+ * la `transitionIn` del clip entrante o, si no tiene, la `transitionOut` del saliente:
+ * - El clip saliente se extiende la duración de la transición (con el material que sigue a su
+ *   recorte) por debajo del entrante y pierde su transición de salida, para que no se funda
+ *   contra el fondo. Si el archivo no alcanza, el entrante se funde sobre lo que quede debajo.
+ * - El clip entrante aplica la transición sobre el saliente: "fade" mezcla ambos videos y
+ *   "slide" desliza el entrante por encima.
+ * - El audio del saliente se funde hacia afuera durante la extensión mientras el del entrante se
+ *   funde hacia adentro; la mezcla de ambos fundidos lineales equivale a acrossfade.
+ * Los elementos no cambian de posición en el timeline ni la composición cambia de duración.
+ */
+export function applyClipCrossfades(clips: VideoClip[]): VideoClip[] {
+    const result = clips.map((clip) => ({ ...clip }));
+    const byLayer = new Map<number, VideoClip[]>();
+    for (const clip of result) {
+        byLayer.set(clip.layer, [...(byLayer.get(clip.layer) ?? []), clip]);
+    }
+
+    for (const layerClips of byLayer.values()) {
+        layerClips.sort((a, b) => a.timelineStart - b.timelineStart);
+        for (let index = 1; index < layerClips.length; index++) {
+            const outgoing = layerClips[index - 1];
+            const incoming = layerClips[index];
+            const outgoingEnd = outgoing.timelineStart + outgoing.duration;
+            const transition = incoming.transitionIn ?? outgoing.transitionOut;
+            if (!transition || Math.abs(incoming.timelineStart - outgoingEnd) > ADJACENT_CLIP_TOLERANCE) {
+                continue;
+            }
+
+            const duration = Math.min(transition.duration, incoming.duration);
+            outgoing.duration += duration;
+            outgoing.crossfadeOut = duration;
+            outgoing.transitionOut = null;
+            incoming.transitionIn = { ...transition, duration };
+        }
+    }
+    return result;
+}
+
+/**
+ * Filtros que ajustan una entrada a una caja de `width`x`height` según el modo de ajuste.
+ * Se aplican después de `format=yuva420p` para que las bandas de "contain" sean transparentes
+ * y dejen ver las capas inferiores (o el fondo).
+ */
+function fitFilters(fit: FitMode, width: number, height: number): string[] {
+    if (fit === 'contain') {
+        return [
+            `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+            `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black@0`,
+            'setsar=1'
+        ];
+    }
+    if (fit === 'cover') {
+        return [`scale=${width}:${height}:force_original_aspect_ratio=increase`, `crop=${width}:${height}`, 'setsar=1'];
+    }
+    return [`scale=${width}:${height}`, 'setsar=1'];
+}
+
+/**
+ * Construye el filtro drawtext de un overlay de texto.
+ * El contenido se lee desde `textFile` para no tener que escapar el texto del usuario
+ * dentro del filtergraph (comillas, ":" , "%" o saltos de línea).
+ */
+function buildDrawtextFilter(overlay: TextOverlay, textFile: string): string {
+    // Keyframes: la escala se aplica al tamaño de fuente; drawtext no admite rotación
+    const localTime = `(t-${overlay.timelineStart})`;
+    const scale = keyframeExpression(overlay.keyframes, 'scale', localTime);
+    const opacity = keyframeExpression(overlay.keyframes, 'opacity', localTime);
+    const fontSize = overlay.fontSize ?? 48;
+    const x = keyframeExpression(overlay.keyframes, 'x', localTime) ?? overlay.position?.x ?? '(w-text_w)/2';
+    const y = keyframeExpression(overlay.keyframes, 'y', localTime) ?? overlay.position?.y ?? '(h-text_h)/2';
+
+    const options = [
+        `textfile='${escapeFilterPath(textFile)}'`,
+        'expansion=none',
+        scale !== null ? `fontsize='max(1,${fontSize}*(${scale}))'` : `fontsize=${fontSize}`,
+        `fontcolor=${overlay.color ?? 'white'}`,
+        `x=${slidePositionExpression(overlay, 'x', x)}`,
+        `y=${slidePositionExpression(overlay, 'y', y)}`,
+        enableExpression(overlay)
+    ];
+
+    // drawtext no acepta el filtro fade; la transparencia se anima con `alpha`
+    const fadeIn = overlay.transitionIn?.type === 'fade' ? overlay.transitionIn.duration : 0;
+    const fadeOut = overlay.transitionOut?.type === 'fade' ? overlay.transitionOut.duration : 0;
+    if (fadeIn || fadeOut || opacity !== null) {
+        const end = overlay.timelineStart + overlay.duration;
+        const alphaIn = fadeIn ? `clip((t-${overlay.timelineStart})/${fadeIn},0,1)` : '1';
+        const alphaOut = fadeOut ? `clip((${end}-t)/${fadeOut},0,1)` : '1';
+        const alphaKeyframes = opacity !== null ? `*clip(${opacity},0,1)` : '';
+        options.push(`alpha='min(${alphaIn},${alphaOut})${alphaKeyframes}'`);
+    }
+
+    // Se acepta tanto un archivo de la carpeta de fuentes como un nombre de familia (fontconfig);
+    // el esquema ya restringe ambos a FONT_NAME_PATTERN, sin caracteres especiales del filtro
+    if (overlay.font) {
+        if (!FONT_NAME_PATTERN.test(overlay.font)) {
+            throw new Error(`La fuente '${overlay.font}' del texto ${overlay.assetId} no es válida.`);
+        }
+        options.unshift(
+            isFontFile(overlay.font)
+                ? `fontfile='${escapeFilterPath(resolveFontPath(overlay.font))}'`
+                : `font='${overlay.font}'`
+        );
+    }
+
+    return `drawtext=${options.join(':')}`;
+}
+
+/**
+ * Prepara la entrada `inputIndex` (clip de video o imagen) y la superpone sobre `baseLabel`:
+ * recorte, normalización de frame rate, ajuste a su caja (`resolution` o el lienzo),
+ * fundidos de transparencia, desplazamiento hasta su `timelineStart` y overlay visible
+ * solo en su ventana de tiempo.
+ */
+function buildVisualOverlayFilters(
+    item: VideoClip | ImageOverlay,
+    compositionData: ConcatCompositionData,
+    inputIndex: number,
+    baseLabel: string,
+    outputLabel: string
+): string[] {
+    const itemLabel = `item${inputIndex}`;
+    const box = item.resolution ?? compositionData.resolution;
+
+    // Dentro de la cadena del elemento `t` es relativo a su inicio (antes del desplazamiento final);
+    // en el overlay, `t` es el tiempo del lienzo
+    const localTime = `(t-${item.timelineStart})`;
+    const opacity = keyframeExpression(item.keyframes, 'opacity', 'T');
+    const rotation = keyframeExpression(item.keyframes, 'rotation', 't');
+    const scale = keyframeExpression(item.keyframes, 'scale', 't');
+    const animatedSize = scale !== null || rotation !== null;
+
+    const prepare = [
+        item.type === 'video'
+            ? `trim=start=${item.start}:duration=${item.duration * item.speed},` +
+              (item.speed !== 1 ? `setpts=(PTS-STARTPTS)/${item.speed}` : 'setpts=PTS-STARTPTS')
+            : 'setpts=PTS-STARTPTS',
+        `fps=${compositionData.fps}`,
+        'format=yuva420p',
+        ...(item.fit ? fitFilters(item.fit, box.width, box.height) : []),
+        ...alphaFadeFilters(item),
+        opacity !== null
+            ? `geq=lum='lum(X,Y)':cb='cb(X,Y)':cr='cr(X,Y)':a='alpha(X,Y)*clip(${opacity},0,1)'`
+            : null,
+        // La rotación amplía el cuadro a su diagonal para no recortar las esquinas
+        rotation !== null ? `rotate=a='(${rotation})*PI/180':c=none:ow='hypot(iw,ih)':oh=ow` : null,
+        scale !== null
+            ? `scale=w='max(2,trunc(iw*(${scale})/2)*2)':h='max(2,trunc(ih*(${scale})/2)*2)':eval=frame`
+            : null,
+        // Desplazamos el elemento hasta su startTime en la línea de tiempo final
+        `setpts=PTS+${item.timelineStart}/TB`
+    ].filter(Boolean).join(',');
+
+    // Con escala o rotación el tamaño del overlay cambia en cada frame; se compensa para que el
+    // elemento se transforme desde su centro. Si el tamaño original no se conoce (imagen sin
+    // `resolution`), se deduce del tamaño actual y la escala.
+    const centerOffset = (axis: 'x' | 'y') => {
+        const current = axis === 'x' ? 'w' : 'h';
+        if (item.fit) {
+            return `(${axis === 'x' ? box.width : box.height}-${current})/2`;
+        }
+        const globalScale = keyframeExpression(item.keyframes, 'scale', localTime) ?? '1';
+        return `(${current}/max(${globalScale},0.05)-${current})/2`;
+    };
+    const basePosition = (axis: 'x' | 'y') => {
+        const keyframed = keyframeExpression(item.keyframes, axis, localTime) ?? item.position?.[axis];
+        if (keyframed === undefined) {
+            return axis === 'x' ? '(W-w)/2' : '(H-h)/2';
+        }
+        return animatedSize ? `${keyframed}+${centerOffset(axis)}` : keyframed;
+    };
+
+    const x = slidePositionExpression(item, 'x', basePosition('x'));
+    const y = slidePositionExpression(item, 'y', basePosition('y'));
+
+    return [
+        `[${inputIndex}:v]${prepare}[${itemLabel}]`,
+        `[${baseLabel}][${itemLabel}]overlay=x=${x}:y=${y}:eof_action=pass:${enableExpression(item)}[${outputLabel}]`
+    ];
+}
+
+/**
+ * Cues de una pista de subtítulos en la línea de tiempo del lienzo: desplazados a su startTime
+ * y limitados a su ventana y a la duración de la composición.
+ */
+function subtitleTimelineCues(track: SubtitleTrack, compositionDuration: number): SubtitleCue[] {
+    if (track.content === null) {
+        throw new Error(`Los subtítulos del asset ${track.assetId} no se descargaron (ver loadSubtitleSources).`);
+    }
+    const end = track.duration !== null
+        ? Math.min(track.timelineStart + track.duration, compositionDuration)
+        : compositionDuration;
+    return shiftCues(parseSubtitles(track.content), track.offset, track.timelineStart, end);
+}
+
+/**
+ * Construye el filtro `subtitles` (libass) que quema los cues de `subtitlesFile` con el estilo
+ * de la pista. Con un archivo de fuente se usa la carpeta de fuentes como `fontsdir` y la familia
+ * leída del archivo (ver loadSubtitleFonts) como `FontName`.
+ */
+function buildSubtitlesFilter(track: SubtitleTrack, subtitlesFile: string, canvasHeight: number): string {
+    const { style } = track;
+    if (style.fontFile && !style.font) {
+        throw new Error(`La fuente de los subtítulos ${track.assetId} no se resolvió (ver loadSubtitleFonts).`);
+    }
+    // La familia va dentro de `force_style='...'`: no puede tener comillas, comas ni ":"
+    if (style.font && !FONT_NAME_PATTERN.test(style.font)) {
+        throw new Error(`La fuente '${style.font}' de los subtítulos ${track.assetId} no es válida.`);
+    }
+
+    const options = [`filename='${escapeFilterPath(subtitlesFile)}'`];
+    if (style.fontFile) {
+        options.push(`fontsdir='${escapeFilterPath(path.dirname(resolveFontPath(style.fontFile)))}'`);
+    }
+    options.push(`force_style='${buildSubtitleForceStyle(style, canvasHeight)}'`);
+    return `subtitles=${options.join(':')}`;
+}
+
+/**
+ * Cadena de atempo para cambiar la velocidad del audio conservando el tono. Cada atempo
+ * acepta factores entre 0.5 y 2.0, así que los factores mayores o menores se encadenan
+ * (p.ej. 4 = 2.0 * 2.0, 0.25 = 0.5 * 0.5).
+ */
+function atempoFilters(speed: number): string[] {
+    const filters: string[] = [];
+    let remaining = speed;
+    while (remaining > 2) {
+        filters.push('atempo=2.0');
+        remaining /= 2;
+    }
+    while (remaining < 0.5) {
+        filters.push('atempo=0.5');
+        remaining /= 0.5;
+    }
+    if (remaining !== 1) {
+        filters.push(`atempo=${Math.round(remaining * 1e6) / 1e6}`);
+    }
+    return filters;
+}
+
+/**
+ * Mezcla todas las fuentes de audio sobre una base de silencio del largo de la composición.
+ * Cada fuente se recorta, se ajusta su velocidad, se normaliza a 48 kHz estéreo, se le aplica
+ * volumen y fundidos, y se desplaza (adelay) hasta su `timelineStart`, de modo que los huecos
+ * del timeline quedan en silencio.
+ */
+function buildAudioMixFilters(
+    sources: Array<AudioTrack & { inputIndex: number }>,
+    duration: number,
+    audioOut: string
+): string[] {
+    const filters = [
+        `anullsrc=r=${AUDIO_SAMPLE_RATE}:cl=${AUDIO_CHANNEL_LAYOUT},atrim=duration=${duration}[silence]`
+    ];
+
+    if (!sources.length) {
+        filters.push(`[silence]anull[${audioOut}]`);
+        return filters;
+    }
+
+    const sourceLabels = sources.map((source, index) => {
+        const label = `aud${index}`;
+        const delayMs = Math.round(source.timelineStart * 1000);
+        const chain = [
+            `atrim=start=${source.start}:duration=${source.duration * source.speed}`,
+            'asetpts=PTS-STARTPTS',
+            ...atempoFilters(source.speed),
+            // Todas las fuentes se llevan a la misma frecuencia de muestreo y layout
+            `aresample=${AUDIO_SAMPLE_RATE}`,
+            `aformat=sample_fmts=fltp:channel_layouts=${AUDIO_CHANNEL_LAYOUT}`,
+            source.volume !== undefined ? `volume=${source.volume}` : null,
+            source.fadeIn ? `afade=t=in:st=0:d=${Math.min(source.fadeIn, source.duration)}` : null,
+            source.fadeOut
+                ? `afade=t=out:st=${Math.max(source.duration - source.fadeOut, 0)}:d=${Math.min(source.fadeOut, source.duration)}`
+                : null,
+            `adelay=${delayMs}:all=1`
+        ].filter(Boolean).join(',');
+
+        filters.push(`[${source.inputIndex}:a]${chain}[${label}]`);
+        return `[${label}]`;
+    });
+
+    // normalize=0 conserva el volumen de cada entrada en lugar de dividirlo entre N;
+    // duration=first hace que la base de silencio defina el largo de la mezcla
+    filters.push(
+        `[silence]${sourceLabels.join('')}amix=inputs=${sources.length + 1}:duration=first:normalize=0[${audioOut}]`
+    );
+    return filters;
+}
+
+/**
+ * Construye el grafo completo de la composición como una línea de tiempo por capas:
+ * 1. Un lienzo de `globalSettings.resolution`, `fps` y `backgroundColor` que dura todo el timeline
+ *    (los huecos quedan con el color de fondo). Cada entrada se normaliza a ese lienzo.
+ * 2. Los elementos visuales se superponen en orden de capa (`layer`) y, dentro de una capa,
+ *    por `startTime`; cada uno solo es visible en su ventana de tiempo.
+ * 3. Los subtítulos "burn" se dibujan encima de todas las capas.
+ * 4. El audio de los clips y las pistas de audio se mezclan en su `startTime`.
+ * 5. Los subtítulos "soft" se agregan como entradas y pistas con el códec del formato (ver `outputOptions`).
+ * Con `preview` el lienzo se compone a menos fps y hasta el final del rango, y la salida se
+ * recorta desde el inicio del rango y se escala a `preview.height`.
+ * Según `outputFormat`: las salidas animadas (gif/webp) no llevan audio, se componen a
+ * `animatedImage.fps` y se escalan a `animatedImage.width` (el gif con una paleta generada del
+ * propio video); las de solo audio (mp3/wav/m4a) no llevan video. Los códecs de salida son los de
+ * `globalSettings.encoding` (ver buildEncodingOptions).
+ * Es una función pura: los archivos auxiliares (textos, medios en base64) dentro de `folderPath`
+ * se retornan en `files` para que quien ejecute ffmpeg los escriba.
+ */
+export function buildComposeGraph(
+    timelineData: ConcatCompositionData,
+    folderPath: string,
+    preview: PreviewSettings | null = null
+): ComposeGraph {
+    const format = OUTPUT_FORMATS[timelineData.outputFormat];
+    const hasVideo = format.kind !== 'audio';
+    const hasAudio = format.kind !== 'animation';
+    const { animatedImage } = timelineData;
+
+    const end = preview ? Math.min(preview.end ?? timelineData.duration, timelineData.duration) : timelineData.duration;
+    const start = preview ? Math.min(preview.start, end) : 0;
+    const compositionData: ConcatCompositionData = {
+        ...timelineData,
+        duration: end,
+        fps: Math.min(
+            timelineData.fps,
+            preview?.fps ?? Infinity,
+            format.kind === 'animation' ? animatedImage.fps : Infinity
+        )
+    };
+
+    const { resolution, backgroundColor, duration, fps } = compositionData;
+    const inputs: ComposeGraph['inputs'] = [];
+    const files: ComposeGraph['files'] = [];
+    const filters: string[] = hasVideo
+        ? [`color=c=${backgroundColor}:s=${resolution.width}x${resolution.height}:r=${fps}:d=${duration},format=yuv420p[canvas]`]
+        : [];
+
+    // 1) Capas visuales (sort es estable: a igual capa se respeta el orden del timeline).
+    //    Los clips consecutivos de una capa con transición se solapan para el crossfade.
+    const visualItems = [...applyClipCrossfades(compositionData.clips), ...compositionData.overlays].sort(
+        (a, b) => a.layer - b.layer || a.timelineStart - b.timelineStart
+    );
+    const audioSources: Array<AudioTrack & { inputIndex: number }> = [];
+
+    let currentVideo = 'canvas';
+    visualItems.forEach((item, index) => {
+        const nextVideo = `layer${index}`;
+
+        if (item.type === 'text') {
+            const textFile = path.join(folderPath, `text_${index}.txt`);
+            files.push({ path: textFile, content: item.content });
+            filters.push(`[${currentVideo}]${buildDrawtextFilter(item, textFile)}[${nextVideo}]`);
+        } else if (item.type === 'image') {
+            const src = mediaInputPath(item.source, folderPath, `image_${index}`, DEFAULT_MEDIA_EXTENSIONS.image, files);
+
+            // La imagen se repite durante la ventana del overlay
+            inputs.push({ src, options: imageInputOptions(src, item.duration) });
+            filters.push(...buildVisualOverlayFilters(item, compositionData, inputs.length - 1, currentVideo, nextVideo));
+        } else {
+            const src = mediaInputPath(item.source, folderPath, `video_${index}`, DEFAULT_MEDIA_EXTENSIONS.video, files);
+            inputs.push({ src, options: [] });
+            filters.push(...buildVisualOverlayFilters(item, compositionData, inputs.length - 1, currentVideo, nextVideo));
+
+            // El audio del clip acompaña a su video, con los mismos fundidos que sus transiciones
+            // (o el del crossfade con el clip siguiente). Solo se mapea `[i:a]` si ffprobe confirmó
+            // que el video tiene audio: si no existe el stream, ffmpeg falla al construir el filtro.
+            if (item.hasAudio && hasAudio) {
+                audioSources.push({
+                    assetId: item.assetId,
+                    inputIndex: inputs.length - 1,
+                    source: item.source,
+                    start: item.start,
+                    duration: item.duration,
+                    timelineStart: item.timelineStart,
+                    volume: item.volume,
+                    fadeIn: item.transitionIn?.duration,
+                    fadeOut: item.crossfadeOut ?? item.transitionOut?.duration,
+                    speed: item.speed
+                });
+            }
+        }
+
+        currentVideo = nextVideo;
+    });
+
+    // 2) Subtítulos quemados. Sus tiempos están en la línea de tiempo del lienzo, así que el
+    //    recorte de la previsualización los afecta igual que al resto del video.
+    compositionData.subtitles.forEach((track, index) => {
+        if (track.mode !== 'burn') {
+            return;
+        }
+        const cues = subtitleTimelineCues(track, duration);
+        if (!cues.length) {
+            console.warn(`[buildComposeGraph] Los subtítulos ${track.assetId} no tienen cues dentro de la composición.`);
+            return;
+        }
+
+        const subtitlesFile = path.join(folderPath, `subtitles_${index}.srt`);
+        files.push({ path: subtitlesFile, content: formatSrt(cues) });
+        filters.push(`[${currentVideo}]${buildSubtitlesFilter(track, subtitlesFile, resolution.height)}[subs${index}]`);
+        currentVideo = `subs${index}`;
+    });
+
+    if (hasVideo) {
+        const outputFilters: string[] = [];
+        if (preview) {
+            // Alto par y nunca mayor que el lienzo; el ancho respeta la relación de aspecto
+            const height = Math.min(resolution.height, Math.round(preview.height / 2) * 2);
+            outputFilters.push(`trim=start=${start}`, 'setpts=PTS-STARTPTS', `scale=-2:${height}`);
+        } else if (format.kind === 'animation') {
+            outputFilters.push(`scale='min(${animatedImage.width},iw)':-2:flags=lanczos`);
+        }
+
+        if (timelineData.outputFormat === 'gif') {
+            // Paleta de 256 colores calculada del propio video, en lugar de la paleta genérica del gif
+            filters.push(
+                `[${currentVideo}]${[...outputFilters, 'split'].join(',')}[gifsrc][gifpal]`,
+                '[gifpal]palettegen=stats_mode=diff[palette]',
+                '[gifsrc][palette]paletteuse=dither=bayer:bayer_scale=5:diff_mode=rectangle[outv]'
+            );
+        } else {
+            filters.push(`[${currentVideo}]${outputFilters.length ? outputFilters.join(',') : 'null'}[outv]`);
+        }
+    }
+
+    // 3) Pistas de audio independientes
+    if (hasAudio) {
+        compositionData.audioTracks.forEach((track, index) => {
+            const src = mediaInputPath(track.source, folderPath, `audio_${index}`, DEFAULT_MEDIA_EXTENSIONS.audio, files);
+            inputs.push({ src, options: [] });
+            audioSources.push({ ...track, inputIndex: inputs.length - 1 });
+        });
+        if (preview) {
+            filters.push(...buildAudioMixFilters(audioSources, duration, 'mixa'));
+            filters.push(`[mixa]atrim=start=${start},asetpts=PTS-STARTPTS[outa]`);
+        } else {
+            filters.push(...buildAudioMixFilters(audioSources, duration, 'outa'));
+        }
+    }
+
+    // 4) Subtítulos como pistas seleccionables, relativos al inicio de la salida
+    const outputOptions: string[] = [
+        ...(timelineData.encoding
+            ? buildEncodingOptions(timelineData.encoding, !!preview)
+            : [...format.codecOptions, ...(preview ? format.previewOptions : [])]),
+        ...animatedImageLoopOptions(timelineData.outputFormat, animatedImage)
+    ];
+    let softTracks = 0;
+    compositionData.subtitles.forEach((track, index) => {
+        if (track.mode !== 'soft') {
+            return;
+        }
+        const cues = shiftCues(subtitleTimelineCues(track, duration), -start, 0, null);
+        if (!cues.length) {
+            console.warn(`[buildComposeGraph] Los subtítulos ${track.assetId} no tienen cues dentro de la composición.`);
+            return;
+        }
+
+        const subtitlesFile = path.join(folderPath, `subtitles_${index}.srt`);
+        files.push({ path: subtitlesFile, content: formatSrt(cues) });
+        inputs.push({ src: subtitlesFile, options: [] });
+        outputOptions.push('-map', `${inputs.length - 1}:s`);
+        if (track.language) {
+            outputOptions.push(`-metadata:s:s:${softTracks}`, `language=${track.language}`);
+        }
+        softTracks++;
+    });
+    if (softTracks) {
+        outputOptions.push('-c:s', format.subtitleCodec);
+    }
+
+    return {
+        inputs,
+        filter: filters.join(';'),
+        outputs: [...(hasVideo ? ['outv'] : []), ...(hasAudio ? ['outa'] : [])],
+        outputOptions,
+        files,
+        duration: duration - start
+    };
+}
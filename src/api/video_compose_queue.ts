@@ -0,0 +1,113 @@
+import KnexDatabase from "../server/KnexDatabase";
+import { ENV } from '../server/global_variables';
+import { initializeVideoCompositionTable, processVideoComposition, updateVideoCompositionProgress } from './VideoAPI';
+import { resumePendingWebhooks } from './video_webhooks';
+
+
+const db = KnexDatabase;
+
+// Cantidad de composiciones que se renderizan en paralelo
+const WORKER_COUNT = Math.max(1, ENV.COMPOSE_WORKERS);
+
+let activeJobs = 0;
+let polling = false;
+
+/**
+ * Reclama la composición encolada más antigua, pasándola a "in_progress".
+ * El UPDATE condicionado a status = "queued" evita que dos workers tomen el mismo registro.
+ * Retorna el ID reclamado, o null si la cola está vacía.
+ */
+async function claimNextComposition(): Promise<string | null> {
+    const next = await db('video_compositions')
+        .where({ status: 'queued' })
+        .orderBy('created_at', 'asc')
+        .first('id');
+
+    if (!next) {
+        return null;
+    }
+
+    const claimed = await db('video_compositions')
+        .where({ id: next.id, status: 'queued' })
+        .update({ status: 'in_progress', updated_at: db.fn.now() });
+
+    return claimed ? next.id : null;
+}
+
+/**
+ * Llena los workers libres con composiciones encoladas.
+ * Cada job terminado vuelve a revisar la cola sin esperar al siguiente intervalo.
+ */
+async function pollComposeQueue(): Promise<void> {
+    if (polling) {
+        return;
+    }
+    polling = true;
+
+    try {
+        while (activeJobs < WORKER_COUNT) {
+            const id = await claimNextComposition();
+            if (!id) {
+                break;
+            }
+
+            activeJobs++;
+            console.log(`[ComposeQueue] Composición ${id} asignada a un worker (${activeJobs}/${WORKER_COUNT} ocupados).`);
+            await updateVideoCompositionProgress(id, { steps: ['job_started'] });
+
+            processVideoComposition(id)
+                .catch((error) => {
+                    console.error(`[ComposeQueue] Error no controlado procesando la composición ${id}:`, error);
+                })
+                .finally(() => {
+                    activeJobs--;
+                    void pollComposeQueue();
+                });
+        }
+    } catch (error) {
+        console.error('[ComposeQueue] Error al revisar la cola de composiciones:', error);
+    } finally {
+        polling = false;
+    }
+}
+
+/**
+ * Las composiciones que quedaron "in_progress" pertenecen a un proceso anterior que se
+ * detuvo a mitad del render; se devuelven a la cola para que se rendericen de nuevo.
+ */
+async function requeueInterruptedCompositions(): Promise<void> {
+    const interrupted = await db('video_compositions')
+        .where({ status: 'in_progress' })
+        .whereNotNull('payload');
+
+    for (const record of interrupted) {
+        await updateVideoCompositionProgress(record.id, {
+            status: 'queued',
+            steps: ['job_requeued_after_restart']
+        });
+    }
+
+    if (interrupted.length) {
+        console.log(`[ComposeQueue] ${interrupted.length} composiciones interrumpidas devueltas a la cola.`);
+    }
+}
+
+
+// Iniciar el pool de workers cuando el servidor arranque
+export async function startVideoComposeWorkers() {
+    try {
+        console.log(`[ComposeQueue] Iniciando ${WORKER_COUNT} worker(s). Revisando la cola cada ${ENV.COMPOSE_QUEUE_POLL_INTERVAL} ms.`);
+
+        await initializeVideoCompositionTable();
+        await requeueInterruptedCompositions();
+        await resumePendingWebhooks();
+    } catch (error) {
+        console.error('[ComposeQueue] Error al preparar la cola de composiciones:', error);
+    }
+
+    // Ejecutar inmediatamente al inicio
+    void pollComposeQueue();
+
+    // Programar revisión periódica
+    setInterval(pollComposeQueue, ENV.COMPOSE_QUEUE_POLL_INTERVAL);
+}
@@ -0,0 +1,55 @@
+import { EventEmitter } from 'events';
+
+
+/**
+ * Evento de una composición:
+ * - step: se agregaron pasos a "steps" (y opcionalmente cambió el estado).
+ * - progress: avance del render de ffmpeg.
+ */
+export type CompositionEvent =
+    | { type: 'step'; id: string; steps: string[]; status?: string }
+    | { type: 'progress'; id: string; progress: CompositionProgress };
+
+/**
+ * Avance del render guardado en `video_compositions.progress`.
+ * - percent: 0-100, calculado con el tiempo renderizado sobre la duración del timeline.
+ * - eta_seconds: estimación del tiempo restante (null hasta tener datos suficientes).
+ */
+export type CompositionProgress = {
+    percent: number;
+    frame: number;
+    fps: number;
+    eta_seconds: number | null;
+    out_time: number;
+};
+
+// Estados en los que una composición ya no emitirá más eventos
+export const FINAL_COMPOSITION_STATUSES = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Bus en memoria de los eventos de composición. Los workers corren en este mismo proceso,
+ * así que las rutas (p.ej. el stream SSE) pueden suscribirse directamente.
+ */
+const compositionEvents = new EventEmitter();
+// Cada cliente SSE agrega un listener; no es una fuga
+compositionEvents.setMaxListeners(0);
+
+export function emitCompositionEvent(event: CompositionEvent): void {
+    compositionEvents.emit('event', event);
+}
+
+/**
+ * Suscribe `listener` a los eventos de la composición `id`.
+ * Retorna la función para cancelar la suscripción.
+ */
+export function subscribeToComposition(id: string, listener: (event: CompositionEvent) => void): () => void {
+    const handler = (event: CompositionEvent) => {
+        if (event.id === id) {
+            listener(event);
+        }
+    };
+    compositionEvents.on('event', handler);
+    return () => {
+        compositionEvents.off('event', handler);
+    };
+}
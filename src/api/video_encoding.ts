@@ -0,0 +1,378 @@
+import { execFile } from 'child_process';
+import ffmpegStatic from 'ffmpeg-static';
+import { OUTPUT_FORMATS, OutputFormat } from './video_output_formats';
+
+
+/**
+ * Códec de video admitido en `globalSettings.encoding.videoCodec`.
+ * - crfRange: rango de `crf`, o null si el códec no tiene calidad constante (ProRes).
+ * - constantQualityOptions: opciones necesarias para que `crf` sea calidad constante pura.
+ * - encoderPresets: valores de `-preset` que acepta, o null si no tiene presets.
+ * - extraOptions: opciones fijas del códec.
+ * - previewOptions: opciones que priorizan la velocidad en los renders de previsualización.
+ */
+type VideoCodecSpec = {
+    defaultCrf: number | null;
+    crfRange: [number, number] | null;
+    defaultPixelFormat: string;
+    constantQualityOptions: string[];
+    encoderPresets: string[] | null;
+    extraOptions: string[];
+    previewOptions: string[];
+};
+
+/**
+ * Códec de audio admitido en `globalSettings.encoding.audioCodec`. Los códecs sin compresión o
+ * sin pérdida (PCM, ALAC) no admiten `audioBitrate`.
+ */
+type AudioCodecSpec = {
+    defaultBitrate: number | null;
+};
+
+const X26X_PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow'];
+
+const VIDEO_CODECS: Record<string, VideoCodecSpec> = {
+    libx264: {
+        defaultCrf: 23,
+        crfRange: [0, 51],
+        defaultPixelFormat: 'yuv420p',
+        constantQualityOptions: [],
+        encoderPresets: X26X_PRESETS,
+        extraOptions: [],
+        previewOptions: ['-preset', 'ultrafast', '-crf', '30']
+    },
+    libx265: {
+        defaultCrf: 28,
+        crfRange: [0, 51],
+        defaultPixelFormat: 'yuv420p',
+        constantQualityOptions: [],
+        encoderPresets: X26X_PRESETS,
+        // Etiqueta hvc1 para que los reproductores de Apple acepten el HEVC en mp4/mov
+        extraOptions: ['-tag:v', 'hvc1'],
+        previewOptions: ['-preset', 'ultrafast', '-crf', '34']
+    },
+    'libvpx-vp9': {
+        defaultCrf: 32,
+        crfRange: [0, 63],
+        defaultPixelFormat: 'yuv420p',
+        constantQualityOptions: ['-b:v', '0'],
+        encoderPresets: null,
+        extraOptions: ['-row-mt', '1'],
+        previewOptions: ['-deadline', 'realtime', '-cpu-used', '8']
+    },
+    'libaom-av1': {
+        defaultCrf: 30,
+        crfRange: [0, 63],
+        defaultPixelFormat: 'yuv420p',
+        constantQualityOptions: ['-b:v', '0'],
+        encoderPresets: null,
+        extraOptions: ['-cpu-used', '6', '-row-mt', '1'],
+        previewOptions: ['-cpu-used', '8']
+    },
+    prores_ks: {
+        defaultCrf: null,
+        crfRange: null,
+        defaultPixelFormat: 'yuv422p10le',
+        constantQualityOptions: [],
+        encoderPresets: null,
+        // Perfil HQ; en la previsualización, Proxy
+        extraOptions: ['-profile:v', '3'],
+        previewOptions: ['-profile:v', '0']
+    }
+};
+
+const AUDIO_CODECS: Record<string, AudioCodecSpec> = {
+    aac: { defaultBitrate: 192 },
+    libmp3lame: { defaultBitrate: 192 },
+    libopus: { defaultBitrate: 128 },
+    libvorbis: { defaultBitrate: 160 },
+    pcm_s16le: { defaultBitrate: null },
+    pcm_s24le: { defaultBitrate: null },
+    alac: { defaultBitrate: null }
+};
+
+export const VIDEO_CODEC_NAMES = Object.keys(VIDEO_CODECS);
+export const AUDIO_CODEC_NAMES = Object.keys(AUDIO_CODECS);
+export const ENCODER_PRESET_NAMES = X26X_PRESETS;
+
+/**
+ * Preset de `globalSettings.encoding.preset`. Se aplica sobre los códecs del formato:
+ * - crf: calidad por códec de video.
+ * - keyframeInterval: segundos entre keyframes (se convierte a `gop` con el fps), o null.
+ * - codecs: códecs que el preset prefiere en algunos formatos.
+ */
+type EncodingPreset = {
+    crf: Record<string, number>;
+    encoderPreset: string;
+    keyframeInterval: number | null;
+    audioBitrate: number;
+    audioSampleRate: number;
+    codecs?: Partial<Record<OutputFormat, { videoCodec?: string; audioCodec?: string }>>;
+};
+
+export type EncodingPresetName = 'web' | 'social' | 'archive';
+
+const ENCODING_PRESETS: Record<EncodingPresetName, EncodingPreset> = {
+    // Reproducción en navegadores: tamaño contenido y keyframes frecuentes para saltar rápido
+    web: {
+        crf: { libx264: 23, libx265: 28, 'libvpx-vp9': 34, 'libaom-av1': 34 },
+        encoderPreset: 'medium',
+        keyframeInterval: 2,
+        audioBitrate: 128,
+        audioSampleRate: 48000
+    },
+    // Subida a redes sociales, que vuelven a codificar: más calidad de origen
+    social: {
+        crf: { libx264: 19, libx265: 23, 'libvpx-vp9': 30, 'libaom-av1': 30 },
+        encoderPreset: 'slow',
+        keyframeInterval: 2,
+        audioBitrate: 192,
+        audioSampleRate: 48000
+    },
+    // Conservación: casi sin pérdida, y ProRes/PCM/ALAC en los contenedores que los admiten
+    archive: {
+        crf: { libx264: 14, libx265: 18, 'libvpx-vp9': 18, 'libaom-av1': 20 },
+        encoderPreset: 'slower',
+        keyframeInterval: null,
+        audioBitrate: 320,
+        audioSampleRate: 48000,
+        codecs: {
+            mov: { videoCodec: 'prores_ks', audioCodec: 'pcm_s24le' },
+            wav: { audioCodec: 'pcm_s24le' },
+            m4a: { audioCodec: 'alac' }
+        }
+    }
+};
+
+export const ENCODING_PRESET_NAMES = Object.keys(ENCODING_PRESETS) as EncodingPresetName[];
+
+/**
+ * Codificación resuelta de una salida de video o de solo audio. Los bitrates están en kbps y
+ * `gop` en frames; los campos de video son null en los formatos de solo audio.
+ */
+export type EncodingSettings = {
+    preset: EncodingPresetName | null;
+    videoCodec: string | null;
+    crf: number | null;
+    videoBitrate: number | null;
+    encoderPreset: string | null;
+    pixelFormat: string | null;
+    gop: number | null;
+    audioCodec: string;
+    audioBitrate: number | null;
+    audioSampleRate: number | null;
+    faststart: boolean;
+};
+
+const VIDEO_FIELDS = ['videoCodec', 'crf', 'videoBitrate', 'encoderPreset', 'pixelFormat', 'gop'];
+
+/**
+ * Resuelve `globalSettings.encoding` para un formato: valores explícitos, luego los del preset
+ * y luego los por defecto del formato y sus códecs. Al cambiar de códec, la calidad por defecto
+ * es la del nuevo códec. Retorna null en las salidas animadas (gif/webp), que no admiten `encoding`.
+ * Lanza un error si una opción no aplica al formato o al códec elegido.
+ */
+export function resolveEncodingSettings(format: OutputFormat, options: any, fps: number): EncodingSettings | null {
+    const spec = OUTPUT_FORMATS[format];
+    const requested = options ?? {};
+
+    if (spec.kind === 'animation') {
+        if (Object.keys(requested).length) {
+            throw new Error(`El formato '${format}' no admite 'encoding'; use 'animatedImage'.`);
+        }
+        return null;
+    }
+    if (spec.kind === 'audio') {
+        const videoField = VIDEO_FIELDS.find((field) => requested[field] !== undefined);
+        if (videoField) {
+            throw new Error(`El formato '${format}' es solo audio; 'encoding.${videoField}' no aplica.`);
+        }
+    }
+
+    const preset = requested.preset ? ENCODING_PRESETS[requested.preset as EncodingPresetName] : null;
+    const presetCodecs = preset?.codecs?.[format];
+
+    // Códecs: deben ser de los que admite el contenedor
+    const videoCodec = spec.kind === 'video'
+        ? requested.videoCodec ?? presetCodecs?.videoCodec ?? spec.videoCodecs[0]
+        : null;
+    const audioCodec = requested.audioCodec ?? presetCodecs?.audioCodec ?? spec.audioCodecs[0];
+    if (videoCodec && !spec.videoCodecs.includes(videoCodec)) {
+        throw new Error(`El formato '${format}' no admite el códec de video '${videoCodec}' (admite: ${spec.videoCodecs.join(', ')}).`);
+    }
+    if (!spec.audioCodecs.includes(audioCodec)) {
+        throw new Error(`El formato '${format}' no admite el códec de audio '${audioCodec}' (admite: ${spec.audioCodecs.join(', ')}).`);
+    }
+
+    let crf: number | null = null;
+    let encoderPreset: string | null = null;
+    let pixelFormat: string | null = null;
+    let gop: number | null = null;
+    if (videoCodec) {
+        const codec = VIDEO_CODECS[videoCodec];
+        if (requested.crf !== undefined && !codec.crfRange) {
+            throw new Error(`El códec '${videoCodec}' no admite 'crf'.`);
+        }
+        if (requested.crf !== undefined && (requested.crf < codec.crfRange[0] || requested.crf > codec.crfRange[1])) {
+            throw new Error(`'crf' debe estar entre ${codec.crfRange[0]} y ${codec.crfRange[1]} con '${videoCodec}'.`);
+        }
+        if (requested.videoBitrate !== undefined && !codec.crfRange) {
+            throw new Error(`El códec '${videoCodec}' no admite 'videoBitrate'; su calidad se define por perfil.`);
+        }
+        if (requested.encoderPreset !== undefined && !codec.encoderPresets) {
+            throw new Error(`El códec '${videoCodec}' no admite 'encoderPreset' (solo libx264 y libx265).`);
+        }
+
+        // Con `videoBitrate` el control es por bitrate y no se usa crf
+        crf = requested.videoBitrate !== undefined
+            ? null
+            : requested.crf ?? preset?.crf[videoCodec] ?? codec.defaultCrf;
+        encoderPreset = requested.encoderPreset ?? (codec.encoderPresets ? preset?.encoderPreset ?? null : null);
+        pixelFormat = requested.pixelFormat ?? codec.defaultPixelFormat;
+        gop = requested.gop ?? (preset?.keyframeInterval ? Math.round(fps * preset.keyframeInterval) : null);
+    }
+
+    const audio = AUDIO_CODECS[audioCodec];
+    if (requested.audioBitrate !== undefined && audio.defaultBitrate === null) {
+        throw new Error(`El códec '${audioCodec}' no tiene pérdida; no admite 'audioBitrate'.`);
+    }
+    if (requested.faststart && !spec.faststart) {
+        throw new Error(`'faststart' solo aplica a mp4, mov y m4a, no a '${format}'.`);
+    }
+
+    return {
+        preset: requested.preset ?? null,
+        videoCodec,
+        crf,
+        videoBitrate: requested.videoBitrate ?? null,
+        encoderPreset,
+        pixelFormat,
+        gop,
+        audioCodec,
+        audioBitrate: audio.defaultBitrate === null ? null : requested.audioBitrate ?? preset?.audioBitrate ?? audio.defaultBitrate,
+        audioSampleRate: requested.audioSampleRate ?? preset?.audioSampleRate ?? null,
+        faststart: spec.faststart && (requested.faststart ?? true)
+    };
+}
+
+/**
+ * Opciones de salida de ffmpeg para una codificación resuelta. Con `preview` se agregan al final
+ * las opciones rápidas del códec de video, que reemplazan a las anteriores.
+ */
+export function buildEncodingOptions(encoding: EncodingSettings, preview: boolean): string[] {
+    const options: string[] = [];
+
+    if (encoding.videoCodec) {
+        const codec = VIDEO_CODECS[encoding.videoCodec];
+        options.push('-c:v', encoding.videoCodec);
+        if (encoding.videoBitrate !== null) {
+            options.push('-b:v', `${encoding.videoBitrate}k`);
+        } else if (encoding.crf !== null) {
+            options.push('-crf', String(encoding.crf), ...codec.constantQualityOptions);
+        }
+        if (encoding.encoderPreset) {
+            options.push('-preset', encoding.encoderPreset);
+        }
+        options.push('-pix_fmt', encoding.pixelFormat);
+        if (encoding.gop !== null) {
+            options.push('-g', String(encoding.gop));
+        }
+        options.push(...codec.extraOptions);
+        if (preview) {
+            options.push(...codec.previewOptions);
+        }
+    }
+
+    options.push('-c:a', encoding.audioCodec);
+    if (encoding.audioBitrate !== null) {
+        options.push('-b:a', `${encoding.audioBitrate}k`);
+    }
+    if (encoding.audioSampleRate !== null) {
+        options.push('-ar', String(encoding.audioSampleRate));
+    }
+    if (encoding.faststart) {
+        options.push('-movflags', '+faststart');
+    }
+    return options;
+}
+
+/**
+ * Capacidades de un encoder según `ffmpeg -h encoder=<nombre>`. Las listas vacías significan
+ * que ffmpeg no restringe el valor.
+ */
+type EncoderCapabilities = {
+    pixelFormats: string[];
+    sampleRates: number[];
+};
+
+// Consultas a ffmpeg por encoder; el binario no cambia mientras corre el proceso
+const encoderCapabilities = new Map<string, Promise<EncoderCapabilities | null>>();
+
+/**
+ * Consulta a ffmpeg-static si incluye un encoder y qué formatos de pixel y frecuencias de
+ * muestreo admite. Retorna null si el encoder no existe en el binario.
+ */
+function getEncoderCapabilities(name: string): Promise<EncoderCapabilities | null> {
+    if (!encoderCapabilities.has(name)) {
+        const query = new Promise<EncoderCapabilities | null>((resolve, reject) => {
+            execFile(ffmpegStatic, ['-hide_banner', '-h', `encoder=${name}`], { timeout: 10000 }, (error, stdout) => {
+                if (error) {
+                    return reject(error);
+                }
+                if (!/^Encoder /m.test(stdout)) {
+                    return resolve(null);
+                }
+                const list = (label: string) => (new RegExp(`${label}:\\s*(.+)`).exec(stdout)?.[1] ?? '').trim().split(/\s+/).filter(Boolean);
+                resolve({
+                    pixelFormats: list('Supported pixel formats'),
+                    sampleRates: list('Supported sample rates').map(Number)
+                });
+            });
+        });
+        // Si ffmpeg no pudo ejecutarse, se vuelve a intentar en la próxima consulta
+        query.catch(() => encoderCapabilities.delete(name));
+        encoderCapabilities.set(name, query);
+    }
+    return encoderCapabilities.get(name);
+}
+
+/**
+ * Verifica una codificación resuelta contra el binario de ffmpeg-static: que incluya los
+ * encoders y que estos admitan `pixelFormat` y `audioSampleRate`. Lanza un error si algo no es
+ * compatible. Si ffmpeg no puede consultarse, la verificación se omite y se retorna una advertencia.
+ */
+export async function validateEncodingSupport(encoding: EncodingSettings | null): Promise<string[]> {
+    if (!encoding) {
+        return [];
+    }
+
+    let video: EncoderCapabilities | null = null;
+    let audio: EncoderCapabilities | null;
+    try {
+        video = encoding.videoCodec ? await getEncoderCapabilities(encoding.videoCodec) : null;
+        audio = await getEncoderCapabilities(encoding.audioCodec);
+    } catch (error: any) {
+        console.warn('[validateEncodingSupport] No se pudo consultar ffmpeg:', error.message);
+        return ['No se pudo verificar la codificación contra ffmpeg; se validará al renderizar.'];
+    }
+
+    if (encoding.videoCodec) {
+        if (!video) {
+            throw new Error(`El ffmpeg del servidor no incluye el encoder de video '${encoding.videoCodec}'.`);
+        }
+        if (video.pixelFormats.length && !video.pixelFormats.includes(encoding.pixelFormat)) {
+            throw new Error(
+                `El encoder '${encoding.videoCodec}' no admite el formato de pixel '${encoding.pixelFormat}' (admite: ${video.pixelFormats.join(', ')}).`
+            );
+        }
+    }
+    if (!audio) {
+        throw new Error(`El ffmpeg del servidor no incluye el encoder de audio '${encoding.audioCodec}'.`);
+    }
+    if (encoding.audioSampleRate !== null && audio.sampleRates.length && !audio.sampleRates.includes(encoding.audioSampleRate)) {
+        throw new Error(
+            `El encoder '${encoding.audioCodec}' no admite ${encoding.audioSampleRate} Hz (admite: ${audio.sampleRates.join(', ')}).`
+        );
+    }
+    return [];
+}
@@ -0,0 +1,97 @@
+import path from 'path';
+import { ENV } from '../server/global_variables';
+
+
+/**
+ * Valores aceptados en `aspecs.font`: un nombre de familia (fontconfig) o el nombre de un archivo
+ * .ttf/.otf/.ttc de la carpeta de fuentes (ENV.FONTS_DIR). Sin comillas, ":", "\" ni "/", para
+ * que el valor no pueda cerrar la opción del filtro ni salir de la carpeta.
+ */
+export const FONT_NAME_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} ._-]*$/u;
+
+/**
+ * Colores aceptados en `aspecs.color` y `globalSettings.backgroundColor`: un nombre ("white"),
+ * o un hexadecimal RGB/RGBA con "#" o "0x", opcionalmente con "@opacidad" (0-1) como en ffmpeg.
+ */
+export const FFMPEG_COLOR_PATTERN = /^(?:[a-z]+|(?:#|0x)[0-9a-f]{6}(?:[0-9a-f]{2})?)(?:@(?:0(?:\.\d+)?|1(?:\.0+)?))?$/i;
+
+/**
+ * Indica si `font` es un archivo de fuente (por su extensión) y no un nombre de familia.
+ */
+export function isFontFile(font: string): boolean {
+    return /\.(ttf|otf|ttc)$/i.test(font);
+}
+
+/**
+ * Ruta absoluta de un archivo de fuente de la carpeta de fuentes. Lanza un error si el nombre
+ * no es válido (ver FONT_NAME_PATTERN).
+ */
+export function resolveFontPath(font: string): string {
+    if (!FONT_NAME_PATTERN.test(font) || !isFontFile(font)) {
+        throw new Error(`La fuente '${font}' no es un archivo de fuente válido.`);
+    }
+    return path.join(path.resolve(ENV.FONTS_DIR), font);
+}
+
+// Plataformas de la tabla "name", en orden de preferencia: Windows y Unicode (UTF-16BE) y Macintosh (Mac Roman)
+const NAME_PLATFORM_PRIORITY = [3, 0, 1];
+const FAMILY_NAME_ID = 1;
+
+/**
+ * Decodifica un registro de la tabla "name": UTF-16BE en las plataformas Unicode y Windows,
+ * y Mac Roman (se lee como latin1, igual en el rango ASCII) en Macintosh.
+ */
+function decodeNameRecord(data: Buffer, platformId: number): string {
+    if (platformId === 1) {
+        return data.toString('latin1');
+    }
+    const swapped = Buffer.from(data);
+    swapped.swap16();
+    return swapped.toString('utf16le');
+}
+
+/**
+ * Nombre de familia (nameID 1 de la tabla "name") de un archivo TrueType/OpenType, o de la primera
+ * fuente de una colección .ttc. Es el nombre con que libass busca la fuente en `fontsdir`, que
+ * no siempre coincide con el nombre del archivo. Retorna null si el archivo no es una fuente válida.
+ */
+export function readFontFamilyName(data: Buffer): string | null {
+    try {
+        const fontOffset = data.toString('latin1', 0, 4) === 'ttcf' ? data.readUInt32BE(12) : 0;
+        const numTables = data.readUInt16BE(fontOffset + 4);
+
+        let nameTable = -1;
+        for (let index = 0; index < numTables; index++) {
+            const record = fontOffset + 12 + index * 16;
+            if (data.toString('latin1', record, record + 4) === 'name') {
+                nameTable = data.readUInt32BE(record + 8);
+                break;
+            }
+        }
+        if (nameTable === -1) {
+            return null;
+        }
+
+        const count = data.readUInt16BE(nameTable + 2);
+        const storage = nameTable + data.readUInt16BE(nameTable + 4);
+        const names = new Map<number, string>();
+        for (let index = 0; index < count; index++) {
+            const record = nameTable + 6 + index * 12;
+            const platformId = data.readUInt16BE(record);
+            if (data.readUInt16BE(record + 6) !== FAMILY_NAME_ID || names.has(platformId)) {
+                continue;
+            }
+            const start = storage + data.readUInt16BE(record + 10);
+            const value = data.subarray(start, start + data.readUInt16BE(record + 8));
+            if (value.length) {
+                names.set(platformId, decodeNameRecord(value, platformId));
+            }
+        }
+
+        const platform = NAME_PLATFORM_PRIORITY.find((id) => names.has(id));
+        return platform !== undefined ? names.get(platform).trim() || null : null;
+    } catch {
+        // Lecturas fuera del buffer: el archivo está truncado o no es una fuente
+        return null;
+    }
+}
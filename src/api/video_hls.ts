@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ENV } from '../server/global_variables';
+
+
+/**
+ * Variante de la escalera HLS. Los bitrates están en kbps.
+ */
+export type HlsRendition = {
+    name: string;
+    height: number;
+    videoBitrate: number;
+    audioBitrate: number;
+};
+
+/**
+ * Empaquetado HLS pedido con la opción `hls` del JSON de composición.
+ * - segmentDuration: duración objetivo de cada segmento (segundos).
+ */
+export type HlsSettings = {
+    renditions: HlsRendition[];
+    segmentDuration: number;
+};
+
+/**
+ * Empaquetado generado, guardado en `video_compositions.hls`. `master` y los `playlist` de cada
+ * variante son relativos a `folder`.
+ */
+export type CompositionHls = {
+    folder: string;
+    master: string;
+    segmentDuration: number;
+    renditions: Array<HlsRendition & { playlist: string }>;
+};
+
+// Escalera por defecto (se descartan las variantes más altas que el lienzo)
+const DEFAULT_HLS_LADDER = [1080, 720, 480];
+const DEFAULT_SEGMENT_DURATION = 6;
+const DEFAULT_AUDIO_BITRATE = 128;
+
+export const HLS_MASTER_PLAYLIST = 'master.m3u8';
+
+// Nombres de archivo que puede pedir un reproductor: el master o una playlist/segmento de una variante
+const HLS_FILE_PATTERN = /^(?:\d+p\/)?[a-z0-9_]+\.(m3u8|ts)$/;
+
+/**
+ * Bitrate de video por defecto según el alto de la variante (kbps).
+ */
+function defaultVideoBitrate(height: number): number {
+    if (height <= 360) return 800;
+    if (height <= 480) return 1400;
+    if (height <= 720) return 2800;
+    if (height <= 1080) return 5000;
+    if (height <= 1440) return 9000;
+    return 16000;
+}
+
+/**
+ * Normaliza la opción `hls` (true o un objeto con `renditions` y `segmentDuration`).
+ * Las variantes más altas que el lienzo se descartan (no se escala hacia arriba) y se reportan
+ * con `warn`; si no queda ninguna, se usa una variante al alto del lienzo.
+ * Retorna null si no se pidió HLS.
+ */
+export function resolveHlsSettings(
+    option: any,
+    canvasHeight: number,
+    warn: (message: string) => void
+): HlsSettings | null {
+    if (!option) {
+        return null;
+    }
+    const options = option === true ? {} : option;
+    const requested: Array<{ height: number; videoBitrate?: number; audioBitrate?: number }> =
+        options.renditions ?? DEFAULT_HLS_LADDER.map((height) => ({ height }));
+
+    const fitting = requested.filter((rendition) => rendition.height <= canvasHeight);
+    if (fitting.length < requested.length) {
+        const dropped = requested.filter((rendition) => rendition.height > canvasHeight).map((r) => `${r.height}p`);
+        warn(`Las variantes HLS ${dropped.join(', ')} superan el alto del lienzo (${canvasHeight}px) y se omitirán.`);
+    }
+    if (!fitting.length) {
+        fitting.push({ height: canvasHeight });
+    }
+
+    return {
+        segmentDuration: options.segmentDuration ?? DEFAULT_SEGMENT_DURATION,
+        renditions: [...fitting]
+            .sort((a, b) => b.height - a.height)
+            .map((rendition) => {
+                // libx264 con yuv420p requiere dimensiones pares
+                const height = Math.round(rendition.height / 2) * 2;
+                return {
+                    name: `${height}p`,
+                    height,
+                    videoBitrate: rendition.videoBitrate ?? defaultVideoBitrate(height),
+                    audioBitrate: rendition.audioBitrate ?? DEFAULT_AUDIO_BITRATE
+                };
+            })
+    };
+}
+
+/**
+ * Carpeta del empaquetado HLS, dentro de la carpeta de la composición.
+ */
+export function getHlsFolder(compositionFolder: string): string {
+    return path.join(compositionFolder, 'hls');
+}
+
+/**
+ * Construye el comando de empaquetado a partir del video compuesto (entrada 0): cada variante
+ * se escala y se codifica en H.264/AAC, con keyframes forzados al inicio de cada segmento para
+ * que todas las variantes corten en los mismos instantes y el reproductor pueda cambiar entre ellas.
+ * Los segmentos quedan en `<folder>/<variante>/` y el master en `<folder>/master.m3u8`.
+ * Es una función pura: quien ejecute ffmpeg debe crear las carpetas de las variantes.
+ */
+export function buildHlsPackageCommand(settings: HlsSettings, folder: string) {
+    const { renditions, segmentDuration } = settings;
+
+    const labels = renditions.map((_, index) => `hls${index}`);
+    const filter = renditions.length === 1
+        ? [`[0:v]scale=-2:${renditions[0].height}[${labels[0]}]`]
+        : [
+            `[0:v]split=${renditions.length}${labels.map((label) => `[${label}src]`).join('')}`,
+            ...renditions.map((rendition, index) => `[${labels[index]}src]scale=-2:${rendition.height}[${labels[index]}]`)
+        ];
+
+    const outputOptions: string[] = [];
+    renditions.forEach((rendition, index) => {
+        outputOptions.push(
+            '-map', `[${labels[index]}]`,
+            '-map', '0:a:0',
+            `-b:v:${index}`, `${rendition.videoBitrate}k`,
+            `-maxrate:v:${index}`, `${Math.round(rendition.videoBitrate * 1.1)}k`,
+            `-bufsize:v:${index}`, `${rendition.videoBitrate * 2}k`,
+            `-b:a:${index}`, `${rendition.audioBitrate}k`
+        );
+    });
+    outputOptions.push(
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-pix_fmt', 'yuv420p',
+        '-sc_threshold', '0',
+        '-force_key_frames', `expr:gte(t,n_forced*${segmentDuration})`,
+        '-c:a', 'aac',
+        '-ac', '2',
+        '-f', 'hls',
+        '-hls_time', String(segmentDuration),
+        '-hls_playlist_type', 'vod',
+        '-hls_flags', 'independent_segments',
+        '-hls_segment_filename', path.join(folder, '%v', 'segment_%04d.ts'),
+        '-master_pl_name', HLS_MASTER_PLAYLIST,
+        '-var_stream_map', renditions.map((rendition, index) => `v:${index},a:${index},name:${rendition.name}`).join(' ')
+    );
+
+    return {
+        filter: filter.join(';'),
+        outputOptions,
+        output: path.join(folder, '%v', 'playlist.m3u8'),
+        result: {
+            folder,
+            master: HLS_MASTER_PLAYLIST,
+            segmentDuration,
+            renditions: renditions.map((rendition) => ({ ...rendition, playlist: `${rendition.name}/playlist.m3u8` }))
+        } as CompositionHls
+    };
+}
+
+/**
+ * Elimina el empaquetado HLS de una composición (cuando el video expira o falla el empaquetado).
+ */
+export async function removeCompositionHls(folder: string): Promise<void> {
+    await fs.promises.rm(folder, { recursive: true, force: true });
+}
+
+/**
+ * Firma de acceso a los archivos HLS de una composición hasta `expires` (segundos Unix):
+ * HMAC-SHA256 de `hls.<id>.<expires>` con la API key de quien la pidió. Va en la ruta (no en
+ * la query) para que las URIs relativas de las playlists la conserven.
+ */
+export function signHlsAccess(apiKey: string, id: string, expires: number): string {
+    return crypto.createHmac('sha256', apiKey).update(`hls.${id}.${expires}`).digest('hex');
+}
+
+/**
+ * Verifica una firma de signHlsAccess contra las API keys vigentes; al revocar una key, sus
+ * enlaces dejan de funcionar.
+ */
+export function verifyHlsSignature(id: string, expires: number, signature: string): boolean {
+    if (!/^[a-f0-9]{64}$/.test(signature) || expires * 1000 < Date.now()) {
+        return false;
+    }
+    const received = Buffer.from(signature, 'hex');
+    return ENV.API_KEYS.some((apiKey) =>
+        crypto.timingSafeEqual(Buffer.from(signHlsAccess(apiKey, id, expires), 'hex'), received)
+    );
+}
+
+/**
+ * Ruta relativa a la carpeta HLS de un archivo pedido por el reproductor, o null si el nombre
+ * no corresponde a un master, playlist o segmento (evita salir de la carpeta).
+ */
+export function resolveHlsFile(file: string): string | null {
+    return HLS_FILE_PATTERN.test(file) ? file : null;
+}
+
+/**
+ * Content-Type de un archivo HLS según su extensión.
+ */
+export function getHlsContentType(file: string): string {
+    return file.endsWith('.m3u8') ? 'application/vnd.apple.mpegurl' : 'video/mp2t';
+}
@@ -0,0 +1,109 @@
+/**
+ * Curva de interpolación entre un keyframe y el siguiente (como en CSS, la del keyframe
+ * de inicio del tramo).
+ */
+export type KeyframeEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+/**
+ * Keyframe de un elemento del timeline. `time` es relativo al inicio del elemento (segundos).
+ * - x/y: esquina superior izquierda en px del lienzo, como `position`.
+ * - scale: factor sobre el tamaño del elemento; se escala desde su centro.
+ * - opacity: 0-1, se multiplica con los fundidos de las transiciones.
+ * - rotation: grados en sentido horario, alrededor del centro.
+ */
+export type Keyframe = {
+    time: number;
+    x?: number;
+    y?: number;
+    scale?: number;
+    opacity?: number;
+    rotation?: number;
+    easing: KeyframeEasing;
+};
+
+export type KeyframeProperty = 'x' | 'y' | 'scale' | 'opacity' | 'rotation';
+
+// Animaciones predefinidas de `effects.animation`
+export const ANIMATION_PRESETS = ['kenburns', 'slide-in', 'pop'] as const;
+
+/**
+ * Keyframes de un preset para un elemento de `duration` segundos.
+ * "slide-in" no usa keyframes: se resuelve como transición de entrada (ver transformToConcatClips).
+ */
+export function presetKeyframes(animation: string, duration: number): Keyframe[] {
+    switch (animation) {
+        case 'kenburns':
+            // Acercamiento lento y continuo durante todo el elemento
+            return [
+                { time: 0, scale: 1, easing: 'linear' },
+                { time: duration, scale: 1.15, easing: 'linear' }
+            ];
+        case 'pop':
+            // Aparece desde el centro con un pequeño rebote
+            return [
+                { time: 0, scale: 0, opacity: 0, easing: 'ease-out' },
+                { time: Math.min(0.25, duration), scale: 1.1, opacity: 1, easing: 'ease-in-out' },
+                { time: Math.min(0.4, duration), scale: 1, easing: 'linear' }
+            ];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Keyframes del JSON de composición (tiempos en ms) ordenados y en segundos.
+ */
+export function resolveKeyframes(keyframes: any[] | undefined): Keyframe[] {
+    return (keyframes ?? [])
+        .map((keyframe) => ({ ...keyframe, time: keyframe.time / 1000, easing: keyframe.easing ?? 'linear' }))
+        .sort((a, b) => a.time - b.time);
+}
+
+// Redondeo de los números de las expresiones, para no arrastrar errores de coma flotante
+function round(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Aplica la curva a un progreso `p` (expresión entre 0 y 1).
+ */
+function easeExpression(p: string, easing: KeyframeEasing): string {
+    switch (easing) {
+        case 'ease-in':
+            return `pow(${p},2)`;
+        case 'ease-out':
+            return `(1-pow(1-${p},2))`;
+        case 'ease-in-out':
+            return `if(lt(${p},0.5),2*pow(${p},2),1-2*pow(1-${p},2))`;
+        default:
+            return p;
+    }
+}
+
+/**
+ * Expresión de ffmpeg con el valor de `property` interpolado en el tiempo `time`
+ * (p.ej. "t" dentro de la cadena del elemento, o "(t-5)" en el overlay sobre el lienzo).
+ * Antes del primer keyframe y después del último se mantiene su valor.
+ * Retorna null si ningún keyframe define la propiedad.
+ */
+export function keyframeExpression(keyframes: Keyframe[], property: KeyframeProperty, time: string): string | null {
+    const points = keyframes.filter((keyframe) => keyframe[property] !== undefined);
+    if (!points.length) {
+        return null;
+    }
+
+    let expression = `${points[points.length - 1][property]}`;
+    for (let i = points.length - 2; i >= 0; i--) {
+        const from = points[i];
+        const to = points[i + 1];
+        const span = round(to.time - from.time);
+        const segment = span > 0
+            ? `${from[property]}+(${round(to[property] - from[property])})*${easeExpression(
+                `clip((${time}-${from.time})/${span},0,1)`,
+                from.easing
+            )}`
+            : `${to[property]}`;
+        expression = `if(lt(${time},${to.time}),${segment},${expression})`;
+    }
+    return expression;
+}
@@ -0,0 +1,161 @@
+import path from 'path';
+
+
+/**
+ * Formatos de salida de `globalSettings.outputFormat`.
+ */
+export const OUTPUT_FORMAT_NAMES = ['mp4', 'mov', 'webm', 'gif', 'webp', 'mp3', 'wav', 'm4a'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMAT_NAMES[number];
+
+/**
+ * Características de un formato de salida:
+ * - kind: "video" (video y audio), "animation" (imagen animada, sin audio) o "audio" (solo audio).
+ * - videoCodecs/audioCodecs: códecs que admite el contenedor con `globalSettings.encoding`; el
+ *   primero es el por defecto (ver video_encoding.ts).
+ * - faststart: el contenedor es MP4/QuickTime y admite mover el índice al inicio (activo por defecto).
+ * - codecOptions/previewOptions: opciones fijas de las salidas animadas, que no admiten `encoding`;
+ *   previewOptions prioriza la velocidad en los renders de previsualización.
+ * - subtitleCodec: códec de las pistas de subtítulos "soft", o null si el formato no las admite.
+ */
+export type OutputFormatSpec = {
+    kind: 'video' | 'animation' | 'audio';
+    contentType: string;
+    videoCodecs: string[];
+    audioCodecs: string[];
+    faststart: boolean;
+    codecOptions: string[];
+    previewOptions: string[];
+    subtitleCodec: string | null;
+};
+
+export const OUTPUT_FORMATS: Record<OutputFormat, OutputFormatSpec> = {
+    mp4: {
+        kind: 'video',
+        contentType: 'video/mp4',
+        videoCodecs: ['libx264', 'libx265', 'libaom-av1'],
+        audioCodecs: ['aac', 'libmp3lame', 'libopus'],
+        faststart: true,
+        codecOptions: [],
+        previewOptions: [],
+        subtitleCodec: 'mov_text'
+    },
+    mov: {
+        kind: 'video',
+        contentType: 'video/quicktime',
+        videoCodecs: ['libx264', 'libx265', 'prores_ks'],
+        audioCodecs: ['aac', 'pcm_s16le', 'pcm_s24le', 'alac'],
+        faststart: true,
+        codecOptions: [],
+        previewOptions: [],
+        subtitleCodec: 'mov_text'
+    },
+    webm: {
+        kind: 'video',
+        contentType: 'video/webm',
+        videoCodecs: ['libvpx-vp9', 'libaom-av1'],
+        audioCodecs: ['libopus', 'libvorbis'],
+        faststart: false,
+        codecOptions: [],
+        previewOptions: [],
+        subtitleCodec: 'webvtt'
+    },
+    gif: {
+        kind: 'animation',
+        contentType: 'image/gif',
+        videoCodecs: [],
+        audioCodecs: [],
+        faststart: false,
+        codecOptions: [],
+        previewOptions: [],
+        subtitleCodec: null
+    },
+    webp: {
+        kind: 'animation',
+        contentType: 'image/webp',
+        videoCodecs: [],
+        audioCodecs: [],
+        faststart: false,
+        codecOptions: ['-c:v', 'libwebp', '-quality', '75', '-compression_level', '4'],
+        previewOptions: ['-compression_level', '0'],
+        subtitleCodec: null
+    },
+    mp3: {
+        kind: 'audio',
+        contentType: 'audio/mpeg',
+        videoCodecs: [],
+        audioCodecs: ['libmp3lame'],
+        faststart: false,
+        codecOptions: [],
+        previewOptions: [],
+        subtitleCodec: null
+    },
+    wav: {
+        kind: 'audio',
+        contentType: 'audio/wav',
+        videoCodecs: [],
+        audioCodecs: ['pcm_s16le', 'pcm_s24le'],
+        faststart: false,
+        codecOptions: [],
+        previewOptions: [],
+        subtitleCodec: null
+    },
+    m4a: {
+        kind: 'audio',
+        contentType: 'audio/mp4',
+        videoCodecs: [],
+        audioCodecs: ['aac', 'alac'],
+        faststart: true,
+        codecOptions: [],
+        previewOptions: [],
+        subtitleCodec: null
+    }
+};
+
+// Formatos sin video: solo admiten assets de audio y no requieren `resolution`
+export const AUDIO_OUTPUT_FORMATS = OUTPUT_FORMAT_NAMES.filter((name) => OUTPUT_FORMATS[name].kind === 'audio');
+
+/**
+ * Ajustes de las salidas animadas (gif/webp), de `globalSettings.animatedImage`.
+ * - fps: frame rate de la animación (el lienzo se compone a este valor si es menor).
+ * - width: ancho máximo en px; el alto respeta la relación de aspecto.
+ * - loop: repetir la animación indefinidamente.
+ */
+export type AnimatedImageSettings = {
+    fps: number;
+    width: number;
+    loop: boolean;
+};
+
+const DEFAULT_ANIMATED_IMAGE_FPS = 15;
+const DEFAULT_ANIMATED_IMAGE_WIDTH = 480;
+
+export function resolveAnimatedImageSettings(options: any): AnimatedImageSettings {
+    return {
+        fps: options?.fps ?? DEFAULT_ANIMATED_IMAGE_FPS,
+        width: options?.width ?? DEFAULT_ANIMATED_IMAGE_WIDTH,
+        loop: options?.loop ?? true
+    };
+}
+
+/**
+ * Opción `-loop` del muxer: en gif 0 repite siempre y -1 reproduce una vez; en webp 0 repite
+ * siempre y 1 reproduce una vez.
+ */
+export function animatedImageLoopOptions(format: OutputFormat, settings: AnimatedImageSettings): string[] {
+    if (format === 'gif') {
+        return ['-loop', settings.loop ? '0' : '-1'];
+    }
+    if (format === 'webp') {
+        return ['-loop', settings.loop ? '0' : '1'];
+    }
+    return [];
+}
+
+/**
+ * Content-Type de un archivo compuesto según su extensión, o undefined si no es un formato de salida.
+ */
+export function getOutputContentType(filePath: string): string | undefined {
+    const extension = path.extname(filePath).slice(1).toLowerCase();
+    return OUTPUT_FORMATS[extension as OutputFormat]?.contentType;
+}
@@ -0,0 +1,237 @@
+import ffmpegStatic from 'ffmpeg-static';
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import path from 'path';
+import { probeMedia } from './media_probe';
+
+ffmpeg.setFfmpegPath(ffmpegStatic);
+
+
+/**
+ * Imágenes a generar para una composición. Los tiempos están en milisegundos,
+ * como en el JSON de composición.
+ */
+export type PreviewOptions = {
+    width: number;
+    poster?: { time: number };
+    thumbnails?: { count: number };
+    sprite?: { interval: number; columns: number };
+};
+
+/**
+ * Imágenes generadas, guardadas en `video_compositions.previews`. Los nombres son
+ * relativos a `folder`.
+ */
+export type CompositionPreviews = {
+    folder: string;
+    poster: string | null;
+    thumbnails: string[];
+    sprite: {
+        image: string;
+        vtt: string;
+        interval: number;
+        columns: number;
+        width: number;
+        height: number;
+    } | null;
+};
+
+/**
+ * Carpeta de las imágenes de una composición, junto a los videos compuestos.
+ */
+export function getPreviewsFolder(id: string): string {
+    return path.join(process.cwd(), 'data', 'composedVideos', 'previews', id);
+}
+
+/**
+ * Lista de archivos que pueden descargarse de unas previews guardadas.
+ */
+export function listPreviewFiles(previews: CompositionPreviews): string[] {
+    return [
+        ...(previews.poster ? [previews.poster] : []),
+        ...previews.thumbnails,
+        ...(previews.sprite ? [previews.sprite.image, previews.sprite.vtt] : [])
+    ];
+}
+
+/**
+ * Elimina las imágenes de una composición (al regenerarlas o cuando el video expira).
+ */
+export async function removeCompositionPreviews(folder: string): Promise<void> {
+    await fs.promises.rm(folder, { recursive: true, force: true });
+}
+
+/**
+ * Extrae un frame en `seconds` como JPEG de `width` px de ancho.
+ */
+function extractFrame(videoPath: string, seconds: number, width: number, outputPath: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        ffmpeg(videoPath)
+            .seekInput(seconds)
+            .outputOptions(['-frames:v', '1', '-q:v', '2'])
+            .videoFilters(`scale=${width}:-2`)
+            .output(outputPath)
+            .on('end', () => resolve())
+            .on('error', (err: Error) => reject(err))
+            .run();
+    });
+}
+
+/**
+ * Genera la grilla de miniaturas (una cada `interval` segundos) en una sola imagen.
+ */
+function extractSprite(
+    videoPath: string,
+    interval: number,
+    tileWidth: number,
+    tileHeight: number,
+    columns: number,
+    rows: number,
+    outputPath: string
+): Promise<void> {
+    return new Promise((resolve, reject) => {
+        ffmpeg(videoPath)
+            .videoFilters([`fps=1/${interval}`, `scale=${tileWidth}:${tileHeight}`, `tile=${columns}x${rows}`])
+            .outputOptions(['-frames:v', '1', '-q:v', '3'])
+            .output(outputPath)
+            .on('end', () => resolve())
+            .on('error', (err: Error) => reject(err))
+            .run();
+    });
+}
+
+/**
+ * Formato de tiempo de WebVTT (HH:MM:SS.mmm).
+ */
+function formatVttTime(seconds: number): string {
+    const ms = Math.round(seconds * 1000);
+    const hours = Math.floor(ms / 3600000);
+    const minutes = Math.floor((ms % 3600000) / 60000);
+    const secs = Math.floor((ms % 60000) / 1000);
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * Pista WebVTT de miniaturas: cada cue apunta a su recuadro del sprite (`#xywh=`),
+ * con la ruta relativa para que funcione desde la misma URL que la pista.
+ */
+export function buildThumbnailVtt(
+    spriteName: string,
+    duration: number,
+    interval: number,
+    columns: number,
+    tileWidth: number,
+    tileHeight: number
+): string {
+    const cues: string[] = ['WEBVTT', ''];
+    const count = Math.ceil(duration / interval);
+    for (let i = 0; i < count; i++) {
+        const x = (i % columns) * tileWidth;
+        const y = Math.floor(i / columns) * tileHeight;
+        cues.push(
+            `${formatVttTime(i * interval)} --> ${formatVttTime(Math.min((i + 1) * interval, duration))}`,
+            `${spriteName}#xywh=${x},${y},${tileWidth},${tileHeight}`,
+            ''
+        );
+    }
+    return cues.join('\n');
+}
+
+// Límites del sprite: cantidad de recuadros y lado de la imagen en px (JPEG admite hasta 65535)
+const SPRITE_MAX_TILES = 300;
+const SPRITE_MAX_SIDE = 16384;
+
+/**
+ * Grilla del sprite de un video de `duration` segundos. Si con lo pedido el sprite supera
+ * SPRITE_MAX_TILES recuadros o SPRITE_MAX_SIDE px de lado, se reducen las columnas y se alarga
+ * el intervalo (en ms enteros) para seguir cubriendo todo el video, con una advertencia.
+ * `interval` se retorna en segundos.
+ */
+export function resolveSpriteLayout(
+    duration: number,
+    sprite: { interval: number; columns: number },
+    tileWidth: number,
+    tileHeight: number,
+    onWarning: (message: string) => void
+): { interval: number; count: number; columns: number; rows: number } {
+    let columns = Math.min(sprite.columns, Math.max(1, Math.floor(SPRITE_MAX_SIDE / tileWidth)));
+    if (columns < sprite.columns) {
+        onWarning(`El sprite admite hasta ${columns} columnas de ${tileWidth} px; se usarán ${columns} en lugar de ${sprite.columns}.`);
+    }
+    const maxTiles = Math.min(SPRITE_MAX_TILES, columns * Math.max(1, Math.floor(SPRITE_MAX_SIDE / tileHeight)));
+
+    let interval = sprite.interval / 1000;
+    let count = Math.ceil(duration / interval);
+    if (count > maxTiles) {
+        const requested = count;
+        interval = Math.ceil((duration * 1000) / maxTiles) / 1000;
+        count = Math.ceil(duration / interval);
+        onWarning(
+            `El sprite tendría ${requested} miniaturas (máximo ${maxTiles}); se generará una cada ${interval * 1000} ms en lugar de cada ${sprite.interval} ms.`
+        );
+    }
+
+    columns = Math.min(columns, count);
+    return { interval, count, columns, rows: Math.ceil(count / columns) };
+}
+
+/**
+ * Genera el poster, las miniaturas y/o el sprite con su pista WebVTT de una composición
+ * completada. Las imágenes anteriores se reemplazan. Los ajustes del sprite (ver
+ * resolveSpriteLayout) se informan con `onWarning`.
+ */
+export async function generateCompositionPreviews(
+    id: string,
+    videoPath: string,
+    options: PreviewOptions,
+    onWarning: (message: string) => void
+): Promise<CompositionPreviews> {
+    const probe = await probeMedia(videoPath);
+    if (!probe.video || !probe.duration) {
+        throw new Error('El video de la composición no tiene una pista de video con duración.');
+    }
+    const duration = probe.duration;
+
+    const folder = getPreviewsFolder(id);
+    await removeCompositionPreviews(folder);
+    await fs.promises.mkdir(folder, { recursive: true });
+
+    const previews: CompositionPreviews = { folder, poster: null, thumbnails: [], sprite: null };
+
+    if (options.poster) {
+        // Un frame antes del final, para no pedir un tiempo sin imagen
+        const seconds = Math.min(options.poster.time / 1000, Math.max(0, duration - 0.1));
+        previews.poster = 'poster.jpg';
+        await extractFrame(videoPath, seconds, options.width, path.join(folder, previews.poster));
+        console.log(`[Previews] Poster generado en ${seconds}s (ID: ${id}).`);
+    }
+
+    if (options.thumbnails) {
+        // Miniaturas en el centro de N segmentos iguales
+        const { count } = options.thumbnails;
+        for (let i = 0; i < count; i++) {
+            const name = `thumb_${String(i + 1).padStart(2, '0')}.jpg`;
+            await extractFrame(videoPath, (duration * (i + 0.5)) / count, options.width, path.join(folder, name));
+            previews.thumbnails.push(name);
+        }
+        console.log(`[Previews] ${count} miniaturas generadas (ID: ${id}).`);
+    }
+
+    if (options.sprite) {
+        const tileWidth = options.width;
+        // Alto par, respetando la relación de aspecto del video
+        const tileHeight = Math.round((options.width * probe.video.height) / probe.video.width / 2) * 2;
+        const { interval, count, columns, rows } = resolveSpriteLayout(duration, options.sprite, tileWidth, tileHeight, onWarning);
+
+        previews.sprite = { image: 'sprite.jpg', vtt: 'sprite.vtt', interval: Math.round(interval * 1000), columns, width: tileWidth, height: tileHeight };
+        await extractSprite(videoPath, interval, tileWidth, tileHeight, columns, rows, path.join(folder, previews.sprite.image));
+        await fs.promises.writeFile(
+            path.join(folder, previews.sprite.vtt),
+            buildThumbnailVtt(previews.sprite.image, duration, interval, columns, tileWidth, tileHeight)
+        );
+        console.log(`[Previews] Sprite de ${count} miniaturas (${columns}x${rows}) generado (ID: ${id}).`);
+    }
+
+    return previews;
+}
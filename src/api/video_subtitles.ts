@@ -0,0 +1,223 @@
+import fs from 'fs';
+import { fetchRemoteBuffer } from './remote_fetch';
+import { FONT_NAME_PATTERN, readFontFamilyName, resolveFontPath } from './video_fonts';
+
+
+/**
+ * Cue de subtítulos. Los tiempos están en segundos.
+ */
+export type SubtitleCue = {
+    start: number;
+    end: number;
+    text: string;
+};
+
+/**
+ * Estilo de los subtítulos quemados, en px del lienzo (se convierten a la escala de libass
+ * en buildSubtitleForceStyle). Los colores ya están en formato ASS (&HAABBGGRR).
+ * - font: nombre de familia de la fuente; con `fontFile`, el leído del archivo (ver loadSubtitleFonts).
+ * - fontFile: archivo de la carpeta de fuentes (ENV.FONTS_DIR) pedido en `aspecs.font`.
+ */
+export type SubtitleStyle = {
+    font?: string;
+    fontFile?: string;
+    fontSize: number;
+    color: string;
+    outlineColor: string;
+    outline: number;
+    backgroundColor: string | null;
+    position: 'bottom' | 'middle' | 'top';
+    margin: number;
+};
+
+// Alto de referencia con que libass interpreta los tamaños de un SRT (PlayResY por defecto)
+const LIBASS_PLAY_RES_Y = 288;
+
+// Colores con nombre aceptados además de los hexadecimales
+const NAMED_COLORS: Record<string, string> = {
+    white: 'FFFFFF',
+    black: '000000',
+    yellow: 'FFFF00',
+    red: 'FF0000',
+    green: '00FF00',
+    blue: '0000FF',
+    cyan: '00FFFF',
+    magenta: 'FF00FF',
+    gray: '808080',
+    grey: '808080'
+};
+
+/**
+ * Convierte un tiempo de SRT ("00:01:02,500") o WebVTT ("01:02.500", "00:01:02.500") a segundos.
+ */
+function parseCueTime(value: string): number | null {
+    const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})$/.exec(value.trim());
+    if (!match) {
+        return null;
+    }
+    const [, hours, minutes, seconds, fraction] = match;
+    return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+}
+
+/**
+ * Lee un archivo SRT o WebVTT. Se ignoran la cabecera WEBVTT, los bloques NOTE/STYLE/REGION,
+ * los números de cue y los ajustes de posición de WebVTT; los bloques sin tiempos válidos se omiten.
+ */
+export function parseSubtitles(content: string): SubtitleCue[] {
+    const blocks = content
+        .replace(/^\uFEFF/, '')
+        .replace(/\r\n?/g, '\n')
+        .split(/\n{2,}/);
+
+    const cues: SubtitleCue[] = [];
+    for (const block of blocks) {
+        const lines = block.split('\n').filter((line) => line.trim() !== '');
+        const timingIndex = lines.findIndex((line) => line.includes('-->'));
+        if (timingIndex === -1 || /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) {
+            continue;
+        }
+
+        const [startText, endText] = lines[timingIndex].split('-->');
+        const start = parseCueTime(startText);
+        // Los ajustes de WebVTT ("align:start line:0") van después del tiempo final
+        const end = parseCueTime(endText.trim().split(/\s+/)[0]);
+        const text = lines.slice(timingIndex + 1).join('\n');
+        if (start === null || end === null || end <= start || !text) {
+            continue;
+        }
+        cues.push({ start, end, text });
+    }
+    return cues.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Desplaza los cues `offset` segundos y los limita a la ventana [from, to] (`to` null = sin límite).
+ * Los cues que quedan fuera de la ventana se descartan y los que la cruzan se recortan.
+ */
+export function shiftCues(cues: SubtitleCue[], offset: number, from: number, to: number | null): SubtitleCue[] {
+    return cues
+        .map((cue) => ({
+            ...cue,
+            start: Math.max(cue.start + offset, from),
+            end: to === null ? cue.end + offset : Math.min(cue.end + offset, to)
+        }))
+        .filter((cue) => cue.end > cue.start);
+}
+
+/**
+ * Formato de tiempo de SRT (HH:MM:SS,mmm).
+ */
+function formatSrtTime(seconds: number): string {
+    const ms = Math.round(seconds * 1000);
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor((ms % 3600000) / 60000))}:${pad(
+        Math.floor((ms % 60000) / 1000)
+    )},${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * Serializa los cues como SRT, el formato que leen tanto el filtro `subtitles` como el muxer.
+ */
+export function formatSrt(cues: SubtitleCue[]): string {
+    return cues
+        .map((cue, index) => `${index + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}\n${cue.text}\n`)
+        .join('\n');
+}
+
+/**
+ * Convierte un color ("white", "#FFCC00", "0xFFCC00", opcionalmente con "@opacidad" como en
+ * ffmpeg, p.ej. "black@0.5") al formato de ASS (&HAABBGGRR, donde AA es la transparencia).
+ * Retorna null si el color no se reconoce.
+ */
+export function toAssColor(color: string): string | null {
+    const [name, opacityText] = color.trim().split('@');
+    const hex = NAMED_COLORS[name.toLowerCase()] ?? name.replace(/^(#|0x)/i, '');
+    if (!/^[0-9a-f]{6}$/i.test(hex)) {
+        return null;
+    }
+    const opacity = opacityText !== undefined ? Number(opacityText) : 1;
+    if (!Number.isFinite(opacity) || opacity < 0 || opacity > 1) {
+        return null;
+    }
+
+    const alpha = Math.round((1 - opacity) * 255).toString(16).padStart(2, '0');
+    return `&H${alpha}${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`.toUpperCase();
+}
+
+/**
+ * Opción `force_style` del filtro `subtitles`. libass interpreta los tamaños de un SRT sobre un
+ * alto de 288 px, así que los px del lienzo se convierten a esa escala.
+ */
+export function buildSubtitleForceStyle(style: SubtitleStyle, canvasHeight: number): string {
+    const toLibass = (px: number) => Math.round((px * LIBASS_PLAY_RES_Y * 100) / canvasHeight) / 100;
+    const alignment = { bottom: 2, middle: 5, top: 8 }[style.position];
+
+    const options = [
+        `FontSize=${toLibass(style.fontSize)}`,
+        `PrimaryColour=${style.color}`,
+        `Alignment=${alignment}`,
+        `MarginV=${toLibass(style.margin)}`
+    ];
+    if (style.backgroundColor) {
+        // BorderStyle=3 dibuja una caja opaca detrás del texto con el color del contorno
+        options.push('BorderStyle=3', `OutlineColour=${style.backgroundColor}`, `Outline=${toLibass(style.outline)}`);
+    } else {
+        options.push('BorderStyle=1', `OutlineColour=${style.outlineColor}`, `Outline=${toLibass(style.outline)}`);
+    }
+    if (style.font) {
+        options.unshift(`FontName=${style.font}`);
+    }
+    return options.join(',');
+}
+
+/**
+ * Resuelve el nombre de familia de las pistas cuya fuente es un archivo (`style.fontFile`): libass
+ * elige la fuente de `fontsdir` por su familia, no por el nombre del archivo. Si el archivo no
+ * existe, no es una fuente o su familia tiene caracteres no admitidos en `force_style`, se usa la
+ * fuente por defecto y se reporta con `warn`. Modifica las pistas recibidas.
+ */
+export async function loadSubtitleFonts(
+    tracks: Array<{ assetId: string; style: SubtitleStyle }>,
+    warn: (message: string) => void
+): Promise<void> {
+    for (const track of tracks) {
+        const { fontFile } = track.style;
+        if (!fontFile || track.style.font) {
+            continue;
+        }
+
+        let family: string | null = null;
+        try {
+            family = readFontFamilyName(await fs.promises.readFile(resolveFontPath(fontFile)));
+        } catch (error: any) {
+            console.warn(`[loadSubtitleFonts] No se pudo leer la fuente ${fontFile}:`, error.message);
+        }
+
+        if (family && FONT_NAME_PATTERN.test(family)) {
+            track.style = { ...track.style, font: family };
+            console.log(`[loadSubtitleFonts] Fuente de los subtítulos ${track.assetId}: ${fontFile} ("${family}").`);
+        } else {
+            track.style = { ...track.style, fontFile: undefined };
+            warn(`La fuente '${fontFile}' de los subtítulos ${track.assetId} no se pudo usar; se usará la fuente por defecto.`);
+        }
+    }
+}
+
+/**
+ * Descarga el contenido de las pistas de subtítulos que se enviaron por URL (`source.url`),
+ * con los mismos límites y la misma caché que el resto de los orígenes remotos (ver remote_fetch.ts).
+ * Modifica las pistas recibidas; si una descarga falla (o se aborta con `signal`) se lanza el error.
+ */
+export async function loadSubtitleSources(
+    tracks: Array<{ assetId: string; url: string | null; content: string | null }>,
+    signal?: AbortSignal
+): Promise<void> {
+    for (const track of tracks) {
+        if (track.content !== null || !track.url) {
+            continue;
+        }
+        console.log(`[loadSubtitleSources] Descargando subtítulos del asset ${track.assetId}: ${track.url}`);
+        const { data } = await fetchRemoteBuffer(track.url, signal);
+        track.content = data.toString('utf8');
+    }
+}
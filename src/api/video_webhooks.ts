@@ -0,0 +1,163 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import KnexDatabase from "../server/KnexDatabase";
+import { ENV } from '../server/global_variables';
+import { assertCallbackUrlAllowed, callbackRequestGuards } from './remote_fetch';
+import { FINAL_COMPOSITION_STATUSES } from './video_composition_events';
+
+
+const db = KnexDatabase;
+
+// Intentos máximos de entrega y espera base del backoff exponencial (2s, 4s, 8s, ...)
+const MAX_ATTEMPTS = ENV.WEBHOOK_MAX_ATTEMPTS;
+const RETRY_BASE_DELAY = 2000;
+const REQUEST_TIMEOUT = 10000;
+
+/**
+ * Registro de un intento de entrega, guardado en `video_compositions.webhook_attempts`.
+ */
+type WebhookAttempt = {
+    attempt: number;
+    at: string;
+    status_code: number | null;
+    error: string | null;
+};
+
+/**
+ * Huella SHA-256 de la API key del cliente. Se guarda en la composición en lugar de la key,
+ * y permite recuperar la key (de ENV.API_KEYS) al firmar el webhook, incluso tras un reinicio.
+ */
+export function hashApiKey(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+}
+
+/**
+ * Firma HMAC-SHA256 de `${timestamp}.${body}` usando la API key como secreto.
+ * El cliente la verifica recalculándola con su propia key.
+ */
+function signWebhookPayload(apiKey: string, timestamp: string, body: string): string {
+    return crypto.createHmac('sha256', apiKey).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Arma el cuerpo del webhook a partir del registro actual de la composición.
+ */
+function buildWebhookPayload(composition: any) {
+    return {
+        id: composition.id,
+        status: composition.status,
+        steps: JSON.parse(composition.steps || '[]'),
+        download_url: composition.video_path ? `${ENV.PROD_HOST}/api/videos/${composition.id}/download` : null,
+        expiration_time: composition.expiration_time,
+        updated_at: composition.updated_at
+    };
+}
+
+/**
+ * Realiza un intento de entrega y lo registra en la composición.
+ * Si falla y quedan intentos, programa el siguiente con backoff exponencial.
+ */
+async function attemptWebhookDelivery(id: string, attempt: number): Promise<void> {
+    const composition = await db('video_compositions').where({ id }).first();
+    if (!composition?.callback_url) {
+        return;
+    }
+
+    const apiKey = ENV.API_KEYS.find((key) => hashApiKey(key) === composition.api_key_hash);
+    if (!apiKey) {
+        console.error(`[Webhook] La API key de la composición ${id} ya no está configurada; no se puede firmar.`);
+        await db('video_compositions').where({ id }).update({ webhook_status: 'failed' });
+        return;
+    }
+
+    const body = JSON.stringify(buildWebhookPayload(composition));
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const record: WebhookAttempt = { attempt, at: new Date().toISOString(), status_code: null, error: null };
+
+    try {
+        // La URL se vuelve a validar en cada intento: el host pudo pasar a resolver a una IP interna
+        await assertCallbackUrlAllowed(composition.callback_url);
+        const response = await axios.post(composition.callback_url, body, {
+            ...callbackRequestGuards,
+            timeout: REQUEST_TIMEOUT,
+            headers: {
+                'Content-Type': 'application/json',
+                'X-Webhook-Timestamp': timestamp,
+                'X-Webhook-Signature': `sha256=${signWebhookPayload(apiKey, timestamp, body)}`
+            },
+            // Cualquier 2xx es éxito; el resto se reintenta
+            validateStatus: (status) => status >= 200 && status < 300
+        });
+        record.status_code = response.status;
+        console.log(`[Webhook] Entregado (ID: ${id}, intento ${attempt}, HTTP ${response.status}).`);
+    } catch (error: any) {
+        record.status_code = error.response?.status ?? null;
+        record.error = error.message;
+        console.warn(`[Webhook] Falló la entrega (ID: ${id}, intento ${attempt}): ${error.message}`);
+    }
+
+    const attempts: WebhookAttempt[] = JSON.parse(composition.webhook_attempts || '[]');
+    attempts.push(record);
+
+    const delivered = !record.error;
+    const exhausted = !delivered && attempt >= MAX_ATTEMPTS;
+    await db('video_compositions')
+        .where({ id })
+        .update({
+            webhook_attempts: JSON.stringify(attempts),
+            webhook_status: delivered ? 'delivered' : exhausted ? 'failed' : 'pending'
+        });
+
+    if (!delivered && !exhausted) {
+        const delay = RETRY_BASE_DELAY * 2 ** (attempt - 1);
+        console.log(`[Webhook] Reintentando en ${delay / 1000}s (ID: ${id}).`);
+        setTimeout(() => void sendWebhookAttempt(id, attempt + 1), delay);
+    }
+}
+
+/**
+ * Envoltorio que nunca rechaza, para poder usarse desde setTimeout.
+ */
+async function sendWebhookAttempt(id: string, attempt: number): Promise<void> {
+    try {
+        await attemptWebhookDelivery(id, attempt);
+    } catch (error) {
+        console.error(`[Webhook] Error inesperado al entregar el webhook (ID: ${id}):`, error);
+    }
+}
+
+/**
+ * Notifica al `callbackUrl` de la composición que terminó (completed/failed/cancelled).
+ * No hace nada si la composición no tiene callback o aún no está en un estado final.
+ */
+export async function notifyCompositionFinished(id: string): Promise<void> {
+    const composition = await db('video_compositions').where({ id }).first();
+    if (!composition?.callback_url || !FINAL_COMPOSITION_STATUSES.includes(composition.status)) {
+        return;
+    }
+
+    await sendWebhookAttempt(id, 1);
+}
+
+/**
+ * Reanuda los webhooks que quedaron pendientes cuando el proceso se detuvo.
+ * Continúa desde el siguiente intento según los ya registrados.
+ */
+export async function resumePendingWebhooks(): Promise<void> {
+    try {
+        const pending = await db('video_compositions')
+            .where({ webhook_status: 'pending' })
+            .whereIn('status', FINAL_COMPOSITION_STATUSES);
+
+        for (const composition of pending) {
+            const attempts: WebhookAttempt[] = JSON.parse(composition.webhook_attempts || '[]');
+            void sendWebhookAttempt(composition.id, attempts.length + 1);
+        }
+
+        if (pending.length) {
+            console.log(`[Webhook] ${pending.length} webhooks pendientes reanudados.`);
+        }
+    } catch (error) {
+        console.error('[Webhook] Error al reanudar webhooks pendientes:', error);
+    }
+}
@@ -4,8 +4,12 @@ import { readFileSync } from "fs";
 import path from 'path';
 import swaggerJSDoc from 'swagger-jsdoc';
 import swaggerUi from 'swagger-ui-express';
+import { api_router_assets } from './api/AssetAPI';
 import { api_router_audio } from './api/AudioAPI';
+import { api_router_hls } from './api/HlsAPI';
+import { api_router_media } from './api/MediaAPI';
 import { startVideoCleanupScheduler } from './api/video_clean_up_data';
+import { startVideoComposeWorkers } from './api/video_compose_queue';
 import { api_router_video } from './api/VideoAPI';
 import { ENV } from './server/global_variables';
 import { single_api } from './api/SingleApi';
@@ -183,8 +187,12 @@ export const createApp = async () => {
     // defineRoutes(app);
 
 
+    // Antes que los routers con apiKeyMiddleware, que rechazan cualquier ruta sin Authorization
+    app.use('/', api_router_hls);
     app.use('/', api_router_audio);
     app.use('/', api_router_video);
+    app.use('/', api_router_media);
+    app.use('/', api_router_assets);
     app.use('/', single_api);
     // api_router_audio(app)
 
@@ -200,6 +208,7 @@ export const startServer = async () => {
     });
 
     startVideoCleanupScheduler();
+    startVideoComposeWorkers();
 
     return server;
 };
\ No newline at end of file
@@ -3,6 +3,19 @@ export const ENV = {
     HOST: process.env.HOST || 'localhost',
     PROD_HOST: process.env['PROD_HOST'] || 'http://localhost:3000',
     API_KEYS: (process.env.API_KEYS || 'secure_api_key,change_me').split(','),
+    COMPOSE_WORKERS: Number(process.env.COMPOSE_WORKERS || 1),
+    COMPOSE_QUEUE_POLL_INTERVAL: Number(process.env.COMPOSE_QUEUE_POLL_INTERVAL || 2000),
+    WEBHOOK_MAX_ATTEMPTS: Number(process.env.WEBHOOK_MAX_ATTEMPTS || 5),
+    // Descarga de `source.url` (ver remote_fetch.ts). Listas de hosts separadas por coma;
+    // "*.dominio.com" incluye los subdominios. Sin allowlist se acepta cualquier host público.
+    REMOTE_FETCH_ALLOWED_HOSTS: (process.env.REMOTE_FETCH_ALLOWED_HOSTS || '').split(',').map((host) => host.trim()).filter(Boolean),
+    REMOTE_FETCH_DENIED_HOSTS: (process.env.REMOTE_FETCH_DENIED_HOSTS || '').split(',').map((host) => host.trim()).filter(Boolean),
+    REMOTE_FETCH_ALLOW_PRIVATE: process.env.REMOTE_FETCH_ALLOW_PRIVATE === 'true',
+    REMOTE_FETCH_MAX_BYTES: Number(process.env.REMOTE_FETCH_MAX_BYTES || 2 * 1024 * 1024 * 1024),
+    REMOTE_FETCH_TIMEOUT: Number(process.env.REMOTE_FETCH_TIMEOUT || 5 * 60 * 1000),
+    REMOTE_FETCH_CACHE_TTL: Number(process.env.REMOTE_FETCH_CACHE_TTL || 7 * 24 * 60 * 60 * 1000),
+    // Carpeta de los archivos de fuente (.ttf/.otf/.ttc) que puede usar `aspecs.font`
+    FONTS_DIR: process.env.FONTS_DIR || 'data/fonts',
     server_isHealthy: false,
     server_isReady: false,
 }
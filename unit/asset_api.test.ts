@@ -0,0 +1,127 @@
+import crypto from 'crypto'
+import express from 'express'
+import ffmpeg from 'fluent-ffmpeg'
+import fs from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+import KnexDatabase from '../src/server/KnexDatabase'
+import { ENV } from '../src/server/global_variables'
+import { api_router_assets } from '../src/api/AssetAPI'
+import { getAssetsFolder, initializeMediaAssetTable, resolveAssetRefs } from '../src/api/asset_library'
+import { initializeVideoCompositionTable } from '../src/api/VideoAPI'
+
+const db = KnexDatabase
+
+describe('asset library', () => {
+    let server: http.Server
+    let baseUrl: string
+    let folder: string
+    let ffprobe: jest.SpyInstance
+
+    const request = (route: string, init: RequestInit = {}) =>
+        fetch(`${baseUrl}${route}`, {
+            ...init,
+            headers: { Authorization: `Bearer ${ENV.API_KEYS[0]}`, ...(init.headers as Record<string, string>) }
+        })
+
+    const upload = (content: string, filename: string) =>
+        request(`/api/assets?filename=${filename}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/octet-stream' },
+            body: content
+        })
+
+    beforeAll(async () => {
+        const app = express()
+        app.use(api_router_assets)
+        server = app.listen(0, '127.0.0.1')
+        await new Promise(resolve => server.once('listening', resolve))
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        await initializeMediaAssetTable()
+        await initializeVideoCompositionTable()
+    })
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve))
+        await db.destroy()
+    })
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined)
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+        folder = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'asset-api-'))
+        jest.spyOn(process, 'cwd').mockReturnValue(folder)
+        ffprobe = jest.spyOn(ffmpeg, 'ffprobe').mockImplementation(((_input: string, callback: any) => {
+            callback(new Error('Invalid data found when processing input'), undefined)
+        }) as any)
+        await db('media_assets').delete()
+        await db('video_compositions').delete()
+    })
+
+    afterEach(async () => {
+        jest.restoreAllMocks()
+        await fs.promises.rm(folder, { recursive: true, force: true })
+    })
+
+    describe('POST /api/assets', () => {
+        it('should store the same content once, under its SHA-256', async () => {
+            const first = await upload('WEBVTT\n', 'a.vtt')
+            const second = await upload('WEBVTT\n', 'b.vtt')
+            const other = await upload('WEBVTT\n\n', 'c.vtt')
+
+            expect(first.status).toBe(201)
+            expect(second.status).toBe(200)
+            expect(other.status).toBe(201)
+            const [firstBody, secondBody, otherBody] = await Promise.all([first.json(), second.json(), other.json()])
+            expect(firstBody.id).toBe(crypto.createHash('sha256').update('WEBVTT\n').digest('hex'))
+            expect(secondBody).toEqual(firstBody)
+            expect(otherBody.id).not.toBe(firstBody.id)
+            expect(firstBody.filename).toBe('a.vtt')
+            expect((await fs.promises.readdir(getAssetsFolder())).sort()).toEqual([`${firstBody.id}.vtt`, `${otherBody.id}.vtt`].sort())
+            expect(ffprobe).toHaveBeenCalledTimes(2)
+        })
+    })
+
+    describe('DELETE /api/assets/:id', () => {
+        it('should refuse to delete an asset that a queued composition uses', async () => {
+            const { id } = await (await upload('WEBVTT\n', 'a.vtt')).json()
+            await db('video_compositions').insert({
+                id: 'c1',
+                status: 'queued',
+                folder_path: folder,
+                payload: JSON.stringify({ assets: [{ id: 's', type: 'subtitle', source: { assetRef: id } }] })
+            })
+
+            const inUse = await request(`/api/assets/${id}`, { method: 'DELETE' })
+            expect(inUse.status).toBe(409)
+            expect(await inUse.json()).toEqual({ error: 'El asset está en uso por una composición encolada o en proceso.' })
+            expect(fs.existsSync(path.join(getAssetsFolder(), `${id}.vtt`))).toBe(true)
+
+            // Una vez terminada la composición, el asset puede eliminarse
+            await db('video_compositions').where({ id: 'c1' }).update({ status: 'completed' })
+            const deleted = await request(`/api/assets/${id}`, { method: 'DELETE' })
+            expect(await deleted.json()).toEqual({ id, deleted: true })
+            expect(fs.existsSync(path.join(getAssetsFolder(), `${id}.vtt`))).toBe(false)
+        })
+    })
+
+    describe('resolveAssetRefs', () => {
+        it('should reject references that are not in the library', async () => {
+            const ref = 'f'.repeat(64)
+            const assets = [{ id: 'v', type: 'video', source: { assetRef: ref }, aspecs: { startTrim: 0, duration: 1000 } }]
+
+            await expect(resolveAssetRefs(assets)).rejects.toThrow(`El asset v referencia '${ref}', que no existe en la biblioteca.`)
+        })
+
+        it('should read library files from disk and load subtitles as text', async () => {
+            const { id } = await (await upload('WEBVTT\n', 'a.vtt')).json()
+            const assets: any[] = [{ id: 's', type: 'subtitle', source: { assetRef: id }, aspecs: { startTrim: 0 } }]
+
+            await resolveAssetRefs(assets)
+
+            expect(assets[0].source).toEqual({ assetRef: id, content: 'WEBVTT\n' })
+        })
+    })
+})
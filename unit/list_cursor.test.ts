@@ -0,0 +1,18 @@
+import { decodeListCursor, encodeListCursor } from '../src/api/list_cursor'
+
+describe('list cursor', () => {
+    it('should decode the position it encodes', () => {
+        const cursor = encodeListCursor({ created_at: '2026-01-02 10:00:00', id: 'c' })
+
+        expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/)
+        expect(decodeListCursor(cursor)).toEqual(['2026-01-02 10:00:00', 'c'])
+    })
+
+    it('should reject cursors that are not a [created_at, id] pair', () => {
+        const encode = (value: any) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+        for (const cursor of ['%%%', Buffer.from('created_at').toString('base64url'), encode(['2026-01-02 10:00:00']), encode(['2026-01-02 10:00:00', 3]), encode({ id: 'c' })]) {
+            expect(decodeListCursor(cursor)).toBeNull()
+        }
+    })
+})
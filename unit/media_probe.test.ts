@@ -0,0 +1,200 @@
+import ffmpeg from 'fluent-ffmpeg'
+import fs from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+import { ENV } from '../src/server/global_variables'
+import { applyMediaProbe, detectClipAudio, probeMedia, probeMediaSource } from '../src/api/media_probe'
+
+const probeData = (streams: any[], format: any = {}) => ({
+    format: { format_name: 'mov,mp4,m4a,3gp,3g2,mj2', duration: '10.5', size: '1048576', bit_rate: 'N/A', ...format },
+    streams,
+    chapters: []
+})
+
+const videoStream = {
+    index: 0,
+    codec_type: 'video',
+    codec_name: 'h264',
+    width: 1920,
+    height: 1080,
+    avg_frame_rate: '30000/1001',
+    pix_fmt: 'yuv420p',
+    side_data_list: [{ rotation: -90 }]
+}
+const audioStream = { index: 1, codec_type: 'audio', codec_name: 'aac', channels: 2, channel_layout: 'stereo', sample_rate: '48000' }
+
+const mockProbe = (result: any) => jest.spyOn(ffmpeg, 'ffprobe').mockImplementation(((_input: string, callback: any) => {
+    result instanceof Error ? callback(result, undefined) : callback(null, result)
+}) as any)
+
+describe('probeMedia', () => {
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    it('should normalize the ffprobe metadata', async () => {
+        mockProbe(probeData([
+            videoStream,
+            audioStream,
+            { index: 2, codec_type: 'video', codec_name: 'mjpeg', width: 300, height: 300, disposition: { attached_pic: 1 } }
+        ]))
+
+        expect(await probeMedia('/tmp/a.mp4')).toEqual({
+            format: 'mov,mp4,m4a,3gp,3g2,mj2',
+            duration: 10.5,
+            duration_ms: 10500,
+            size: 1048576,
+            bit_rate: null,
+            video: { codec: 'h264', width: 1920, height: 1080, fps: 29.97, rotation: 90, pix_fmt: 'yuv420p' },
+            audio: { codec: 'aac', channels: 2, channel_layout: 'stereo', sample_rate: 48000 },
+            streams: [
+                { index: 0, type: 'video', codec: 'h264' },
+                { index: 1, type: 'audio', codec: 'aac' },
+                { index: 2, type: 'video', codec: 'mjpeg' }
+            ]
+        })
+    })
+})
+
+describe('probeMediaSource', () => {
+    const { REMOTE_FETCH_ALLOW_PRIVATE } = ENV
+    let folder: string
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined)
+        folder = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'media-probe-'))
+        jest.spyOn(process, 'cwd').mockReturnValue(folder)
+    })
+
+    afterEach(async () => {
+        ENV.REMOTE_FETCH_ALLOW_PRIVATE = REMOTE_FETCH_ALLOW_PRIVATE
+        jest.restoreAllMocks()
+        await fs.promises.rm(folder, { recursive: true, force: true })
+    })
+
+    it('should not let ffprobe open URLs that the download guard rejects', async () => {
+        const ffprobe = mockProbe(probeData([videoStream]))
+
+        await expect(probeMediaSource({ url: 'http://169.254.169.254/latest/meta-data' })).rejects.toThrow('es privada o reservada')
+        expect(ffprobe).not.toHaveBeenCalled()
+    })
+
+    it('should probe a local copy of remote sources and remove it afterwards', async () => {
+        ENV.REMOTE_FETCH_ALLOW_PRIVATE = true
+        const server = http.createServer((_req, res) => res.end('video'))
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+        const probed: string[] = []
+        jest.spyOn(ffmpeg, 'ffprobe').mockImplementation(((input: string, callback: any) => {
+            probed.push(fs.readFileSync(input, 'utf8'))
+            callback(null, probeData([videoStream]))
+        }) as any)
+
+        try {
+            const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/a.mp4`
+            expect((await probeMediaSource({ url })).duration).toBe(10.5)
+        } finally {
+            await new Promise(resolve => server.close(resolve))
+        }
+        expect(probed).toEqual(['video'])
+        expect(await fs.promises.readdir(path.join(folder, 'data', 'probe'))).toEqual([])
+    })
+})
+
+describe('applyMediaProbe', () => {
+    const source = { data_base64: 'data:video/mp4;base64,AAAA' }
+
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    it('should fill the missing duration with what is left after startTrim', async () => {
+        mockProbe(probeData([videoStream]))
+        const assets = [{ id: 'a', type: 'video', source, aspecs: { startTrim: 500 } }]
+
+        expect(await applyMediaProbe(assets)).toEqual([])
+        expect(assets[0]).toMatchObject({ aspecs: { startTrim: 500, duration: 10000 }, probe: { duration: 10.5, has_audio: false } })
+    })
+
+    it('should clamp startTrim and duration to the file with a warning', async () => {
+        mockProbe(probeData([videoStream, audioStream]))
+        const assets = [
+            { id: 'a', type: 'video', source, aspecs: { startTrim: 20000, duration: 5000 } },
+            { id: 'b', type: 'audio', source, aspecs: { startTrim: 8000, duration: 5000 } }
+        ]
+
+        expect(await applyMediaProbe(assets)).toEqual([
+            'El startTrim del asset a (20000 ms) supera su duración (10500 ms); se usará 0.',
+            'La duración del asset b (5000 ms) supera lo disponible desde startTrim; se ajustó a 2500 ms.'
+        ])
+        expect(assets.map(asset => asset.aspecs)).toEqual([
+            { startTrim: 0, duration: 5000 },
+            { startTrim: 8000, duration: 2500 }
+        ])
+    })
+
+    it('should keep the values sent when ffprobe fails, unless the duration is missing', async () => {
+        mockProbe(new Error('Invalid data found when processing input'))
+
+        expect(await applyMediaProbe([{ id: 'a', type: 'video', source, aspecs: { startTrim: 0, duration: 1000 } }])).toEqual([
+            'No se pudo analizar el asset a con ffprobe: Invalid data found when processing input'
+        ])
+        await expect(applyMediaProbe([{ id: 'a', type: 'video', source, aspecs: { startTrim: 0 } }])).rejects.toThrow(
+            "El asset a no tiene 'aspecs.duration' y no se pudo obtener con ffprobe."
+        )
+    })
+
+    it('should require a duration for text and image assets', async () => {
+        await expect(applyMediaProbe([{ id: 't', type: 'text', source: { content: 'Hola' }, aspecs: {} }])).rejects.toThrow(
+            "El asset t es de tipo text; debe indicar 'aspecs.duration'."
+        )
+    })
+})
+
+describe('detectClipAudio', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    it('should probe only the clips whose audio is unknown', async () => {
+        const probed: string[] = []
+        jest.spyOn(ffmpeg, 'ffprobe').mockImplementation(((input: string, callback: any) => {
+            probed.push(input)
+            callback(null, probeData(input === '/tmp/with-audio.mp4' ? [videoStream, audioStream] : [videoStream]))
+        }) as any)
+        const clips: any[] = [
+            { assetId: 'a', source: { path: '/tmp/with-audio.mp4' } },
+            { assetId: 'b', source: { path: '/tmp/silent.mp4' } },
+            { assetId: 'c', source: { path: '/tmp/probed.mp4' }, hasAudio: true }
+        ]
+        const warnings: string[] = []
+
+        await detectClipAudio(clips, (message) => warnings.push(message))
+
+        expect(clips.map(clip => clip.hasAudio)).toEqual([true, false, true])
+        expect(probed).toEqual(['/tmp/with-audio.mp4', '/tmp/silent.mp4'])
+        expect(warnings).toEqual([])
+    })
+
+    it('should compose without audio when ffprobe fails', async () => {
+        mockProbe(new Error('Invalid data found when processing input'))
+        const clips: any[] = [{ assetId: 'a', source: { path: '/tmp/broken.mp4' } }]
+        const warnings: string[] = []
+
+        await detectClipAudio(clips, (message) => warnings.push(message))
+
+        expect(clips[0].hasAudio).toBe(false)
+        expect(warnings).toEqual([
+            'No se pudo analizar el audio del asset a con ffprobe; se compondrá sin audio: Invalid data found when processing input'
+        ])
+    })
+})
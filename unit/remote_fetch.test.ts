@@ -0,0 +1,188 @@
+import fs from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+import { ENV } from '../src/server/global_variables'
+import {
+    assertCallbackUrlAllowed,
+    callbackRequestGuards,
+    fetchRemoteFile,
+    getRemoteCacheFolder,
+    isPrivateAddress
+} from '../src/api/remote_fetch'
+
+describe('isPrivateAddress', () => {
+    it('should flag private, loopback, link-local and reserved addresses', () => {
+        for (const address of ['10.1.2.3', '127.0.0.1', '169.254.169.254', '172.20.0.1', '192.168.1.1', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', 'not-an-ip']) {
+            expect(isPrivateAddress(address)).toBe(true)
+        }
+    })
+
+    it('should check the IPv4 carried by mapped, NAT64 and IPv4-compatible IPv6 addresses', () => {
+        const forms = (ipv4: string, hex: string) => [`::ffff:${ipv4}`, `::ffff:${hex}`, `64:ff9b::${ipv4}`, `64:ff9b::${hex}`, `::${ipv4}`, `::${hex}`]
+
+        for (const address of [...forms('127.0.0.1', '7f00:1'), ...forms('169.254.169.254', 'a9fe:a9fe'), ...forms('10.0.0.1', 'A00:1')]) {
+            expect([address, isPrivateAddress(address)]).toEqual([address, true])
+        }
+        for (const address of forms('8.8.8.8', '808:808')) {
+            expect([address, isPrivateAddress(address)]).toEqual([address, false])
+        }
+    })
+
+    it('should accept public addresses', () => {
+        for (const address of ['93.184.216.34', '8.8.8.8', '172.32.0.1', '2606:4700:4700::1111', '::ffff:8.8.8.8']) {
+            expect(isPrivateAddress(address)).toBe(false)
+        }
+    })
+})
+
+describe('assertCallbackUrlAllowed', () => {
+    const { REMOTE_FETCH_ALLOWED_HOSTS, REMOTE_FETCH_DENIED_HOSTS } = ENV
+
+    afterEach(() => {
+        ENV.REMOTE_FETCH_ALLOWED_HOSTS = REMOTE_FETCH_ALLOWED_HOSTS
+        ENV.REMOTE_FETCH_DENIED_HOSTS = REMOTE_FETCH_DENIED_HOSTS
+    })
+
+    it('should only accept http and https callbacks', async () => {
+        await expect(assertCallbackUrlAllowed('ftp://93.184.216.34/hook')).rejects.toThrow('Solo se permiten URLs http o https')
+    })
+
+    it('should reject private and loopback addresses', async () => {
+        for (const url of ['http://127.0.0.1:3000/hook', 'http://10.0.0.5/hook', 'http://169.254.169.254/latest', 'http://[::1]/hook', 'http://[::ffff:127.0.0.1]/hook', 'http://[64:ff9b::a9fe:a9fe]/latest']) {
+            await expect(assertCallbackUrlAllowed(url)).rejects.toThrow('es privada o reservada')
+        }
+    })
+
+    it('should reject hosts that resolve to a private address', async () => {
+        await expect(assertCallbackUrlAllowed('http://localhost:3000/hook')).rejects.toThrow(
+            'El host localhost resuelve a una dirección privada o reservada'
+        )
+    })
+
+    it('should apply the denied hosts but not the media allowlist', async () => {
+        ENV.REMOTE_FETCH_ALLOWED_HOSTS = ['media.example.com']
+        await expect(assertCallbackUrlAllowed('https://93.184.216.34/hook')).resolves.toBeUndefined()
+
+        ENV.REMOTE_FETCH_DENIED_HOSTS = ['*.internal.example.com']
+        await expect(assertCallbackUrlAllowed('https://hooks.internal.example.com/hook')).rejects.toThrow(
+            'El host hooks.internal.example.com no está permitido.'
+        )
+    })
+
+    it('should connect without redirects to the validated address only', async () => {
+        expect(callbackRequestGuards.maxRedirects).toBe(0)
+        await expect(callbackRequestGuards.lookup('localhost')).rejects.toThrow('resuelve a una dirección privada o reservada')
+    })
+})
+
+describe('fetchRemoteFile', () => {
+    const { REMOTE_FETCH_ALLOWED_HOSTS, REMOTE_FETCH_ALLOW_PRIVATE, REMOTE_FETCH_MAX_BYTES } = ENV
+
+    afterEach(() => {
+        ENV.REMOTE_FETCH_ALLOWED_HOSTS = REMOTE_FETCH_ALLOWED_HOSTS
+        ENV.REMOTE_FETCH_ALLOW_PRIVATE = REMOTE_FETCH_ALLOW_PRIVATE
+        ENV.REMOTE_FETCH_MAX_BYTES = REMOTE_FETCH_MAX_BYTES
+    })
+
+    it('should reject other schemes, private addresses and hosts outside the allowlist', async () => {
+        await expect(fetchRemoteFile('file:///etc/passwd', '/tmp/job', 'video_0')).rejects.toThrow('Solo se permiten URLs http o https')
+        await expect(fetchRemoteFile('http://169.254.169.254/latest', '/tmp/job', 'video_0')).rejects.toThrow('es privada o reservada')
+
+        ENV.REMOTE_FETCH_ALLOWED_HOSTS = ['*.example.com']
+        await expect(fetchRemoteFile('https://cdn.example.org/a.mp4', '/tmp/job', 'video_0')).rejects.toThrow(
+            'El host cdn.example.org no está en la lista de hosts permitidos.'
+        )
+    })
+
+    it('should not start a download whose composition was already cancelled', async () => {
+        const controller = new AbortController()
+        controller.abort()
+
+        await expect(fetchRemoteFile('https://93.184.216.34/a.mp4', '/tmp/job', 'video_0', controller.signal)).rejects.toThrow(
+            'La descarga de https://93.184.216.34/a.mp4 se canceló.'
+        )
+    })
+})
+
+describe('fetchRemoteFile with a local server', () => {
+    const { REMOTE_FETCH_ALLOW_PRIVATE, REMOTE_FETCH_DENIED_HOSTS, REMOTE_FETCH_MAX_BYTES } = ENV
+    const body = Buffer.from('contenido del video')
+    let server: http.Server
+    let baseUrl: string
+    let requests: http.IncomingHttpHeaders[]
+    let folder: string
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined)
+        folder = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'remote-fetch-'))
+        jest.spyOn(process, 'cwd').mockReturnValue(folder)
+        ENV.REMOTE_FETCH_ALLOW_PRIVATE = true
+
+        requests = []
+        server = http.createServer((req, res) => {
+            requests.push(req.headers)
+            if (req.url === '/redirect.mp4') {
+                res.writeHead(302, { Location: 'http://169.254.169.254/latest' }).end()
+            } else if (req.url === '/etag.mp4' && req.headers['if-none-match'] === '"v1"') {
+                res.writeHead(304).end()
+            } else {
+                const headers = { '/etag.mp4': { ETag: '"v1"' }, '/sized.mp4': { 'Content-Length': body.length } }[req.url]
+                res.writeHead(200, headers ?? {}).end(body)
+            }
+        })
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    })
+
+    afterEach(async () => {
+        await new Promise(resolve => server.close(resolve))
+        ENV.REMOTE_FETCH_ALLOW_PRIVATE = REMOTE_FETCH_ALLOW_PRIVATE
+        ENV.REMOTE_FETCH_DENIED_HOSTS = REMOTE_FETCH_DENIED_HOSTS
+        ENV.REMOTE_FETCH_MAX_BYTES = REMOTE_FETCH_MAX_BYTES
+        jest.restoreAllMocks()
+        await fs.promises.rm(folder, { recursive: true, force: true })
+    })
+
+    it('should cache files with an ETag and revalidate them on the next download', async () => {
+        const first = await fetchRemoteFile(`${baseUrl}/etag.mp4`, folder, 'video_0')
+        const second = await fetchRemoteFile(`${baseUrl}/etag.mp4`, folder, 'video_1')
+
+        expect(path.basename(first)).toBe('video_0.mp4')
+        expect(await fs.promises.readFile(second)).toEqual(body)
+        expect(requests.map(headers => headers['if-none-match'])).toEqual([undefined, '"v1"'])
+        expect((await fs.promises.readdir(getRemoteCacheFolder())).filter(file => file.endsWith('.mp4'))).toHaveLength(1)
+    })
+
+    it('should move files without validators out of the cache', async () => {
+        const file = await fetchRemoteFile(`${baseUrl}/plain.mp4`, folder, 'video_0')
+
+        expect(await fs.promises.readFile(file)).toEqual(body)
+        expect(await fs.promises.readdir(getRemoteCacheFolder())).toEqual([])
+    })
+
+    it('should stop downloads over the maximum size', async () => {
+        ENV.REMOTE_FETCH_MAX_BYTES = 4
+
+        await expect(fetchRemoteFile(`${baseUrl}/sized.mp4`, folder, 'video_0')).rejects.toThrow(
+            `El archivo de ${baseUrl}/sized.mp4 (${body.length} bytes) supera el máximo de 4 bytes.`
+        )
+        // Sin Content-Length el límite se controla mientras se descarga
+        await expect(fetchRemoteFile(`${baseUrl}/plain.mp4`, folder, 'video_0')).rejects.toThrow(
+            `El archivo de ${baseUrl}/plain.mp4 supera el máximo de 4 bytes.`
+        )
+        expect(await fs.promises.readdir(getRemoteCacheFolder())).toEqual([])
+    })
+
+    it('should validate every redirect', async () => {
+        ENV.REMOTE_FETCH_ALLOW_PRIVATE = false
+        await expect(fetchRemoteFile(`${baseUrl}/redirect.mp4`, folder, 'video_0')).rejects.toThrow('es privada o reservada')
+
+        ENV.REMOTE_FETCH_ALLOW_PRIVATE = true
+        ENV.REMOTE_FETCH_DENIED_HOSTS = ['169.254.169.254']
+        await expect(fetchRemoteFile(`${baseUrl}/redirect.mp4`, folder, 'video_0')).rejects.toThrow(
+            'El host 169.254.169.254 no está permitido.'
+        )
+    })
+})
@@ -0,0 +1,292 @@
+import express from 'express'
+import fs from 'fs'
+import http from 'http'
+import { AddressInfo } from 'net'
+import os from 'os'
+import path from 'path'
+import KnexDatabase from '../src/server/KnexDatabase'
+import { ENV } from '../src/server/global_variables'
+import { api_router_video, cancelVideoComposition, initializeVideoCompositionTable, updateVideoCompositionProgress } from '../src/api/VideoAPI'
+import { cleanExpiredVideos } from '../src/api/video_clean_up_data'
+
+const db = KnexDatabase
+
+describe('VideoAPI routes', () => {
+    let server: http.Server
+    let baseUrl: string
+    let folder: string
+
+    const request = (route: string, init: RequestInit = {}) =>
+        fetch(`${baseUrl}${route}`, {
+            ...init,
+            headers: { Authorization: `Bearer ${ENV.API_KEYS[0]}`, ...(init.headers as Record<string, string>) }
+        })
+
+    const insertComposition = async (row: Record<string, any>) => {
+        await db('video_compositions').insert({ status: 'completed', steps: '[]', folder_path: folder, ...row })
+    }
+
+    beforeAll(async () => {
+        const app = express()
+        app.use(express.json())
+        app.use(api_router_video)
+        server = app.listen(0, '127.0.0.1')
+        await new Promise(resolve => server.once('listening', resolve))
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+        await initializeVideoCompositionTable()
+    })
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve))
+        await db.destroy()
+    })
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined)
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+        jest.spyOn(console, 'error').mockImplementation(() => undefined)
+        folder = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'video-api-'))
+        await db('video_compositions').delete()
+    })
+
+    afterEach(async () => {
+        jest.restoreAllMocks()
+        await fs.promises.rm(folder, { recursive: true, force: true })
+    })
+
+    describe('GET /api/videos/:id/download', () => {
+        const writeOutput = async (id: string, extension: string, content = '0123456789') => {
+            const videoPath = path.join(folder, `video-${id}.${extension}`)
+            await fs.promises.writeFile(videoPath, content)
+            // En milisegundos, como sqlite3 guarda un Date (los Date del sandbox de jest se guardarían como texto)
+            await insertComposition({ id, video_path: videoPath, expiration_time: Date.now() + 60 * 60 * 1000 })
+            return videoPath
+        }
+
+        it('should send the whole file as an attachment named after the composition', async () => {
+            await writeOutput('c1', 'mp4')
+
+            const response = await request('/api/videos/c1/download')
+
+            expect(response.status).toBe(200)
+            expect(response.headers.get('content-disposition')).toBe('attachment; filename="c1.mp4"')
+            expect(response.headers.get('accept-ranges')).toBe('bytes')
+            expect(await response.text()).toBe('0123456789')
+        })
+
+        it('should display the file inline when asked to', async () => {
+            await writeOutput('c1', 'mp4')
+
+            const response = await request('/api/videos/c1/download?inline=true')
+
+            expect(response.headers.get('content-disposition')).toBe('inline; filename="c1.mp4"')
+        })
+
+        it('should answer a Range request with 206 and only that part', async () => {
+            await writeOutput('c1', 'mp4')
+
+            const response = await request('/api/videos/c1/download', { headers: { Range: 'bytes=2-5' } })
+
+            expect(response.status).toBe(206)
+            expect(response.headers.get('content-range')).toBe('bytes 2-5/10')
+            expect(await response.text()).toBe('2345')
+        })
+
+        it('should answer 416 to a Range outside the file', async () => {
+            await writeOutput('c1', 'mp4')
+
+            const response = await request('/api/videos/c1/download', { headers: { Range: 'bytes=20-30' } })
+
+            expect(response.status).toBe(416)
+            expect(response.headers.get('content-range')).toBe('bytes */10')
+        })
+
+        it('should send the content type of each output format', async () => {
+            const formats = { mp4: 'video/mp4', mov: 'video/quicktime', webm: 'video/webm', gif: 'image/gif', webp: 'image/webp', mp3: 'audio/mpeg', wav: 'audio/wav', m4a: 'audio/mp4' }
+
+            for (const [extension, contentType] of Object.entries(formats)) {
+                await writeOutput(extension, extension)
+                const response = await request(`/api/videos/${extension}/download`)
+
+                expect(response.headers.get('content-type')).toBe(contentType)
+                await response.arrayBuffer()
+            }
+        })
+
+        it('should answer 404 for unknown compositions and 409 while there is no video', async () => {
+            await insertComposition({ id: 'queued', status: 'queued' })
+
+            expect((await request('/api/videos/unknown/download')).status).toBe(404)
+
+            const response = await request('/api/videos/queued/download')
+            expect(response.status).toBe(409)
+            expect(await response.json()).toEqual({ error: 'La composición no tiene un video disponible.', status: 'queued' })
+        })
+
+        it('should answer 410 once the cleanup removed the expired video', async () => {
+            const videoPath = await writeOutput('c1', 'mp4')
+            await db('video_compositions').where({ id: 'c1' }).update({ expiration_time: Date.now() - 1000 })
+
+            await cleanExpiredVideos()
+
+            expect(fs.existsSync(videoPath)).toBe(false)
+            const response = await request('/api/videos/c1/download')
+            expect(response.status).toBe(410)
+            expect(await response.json()).toEqual({ error: 'El video de esta composición expiró y fue eliminado.' })
+        })
+
+        it('should answer 410 when the file is gone before the cleanup updates the record', async () => {
+            const videoPath = await writeOutput('c1', 'mp4')
+            await fs.promises.unlink(videoPath)
+
+            expect((await request('/api/videos/c1/download')).status).toBe(410)
+        })
+    })
+
+    describe('POST /api/videos/compose?sync=true', () => {
+        const composition = {
+            assets: [{ id: 't', type: 'text', source: { content: 'Hola' }, aspecs: { duration: 1000 } }],
+            timeline: [{ assetId: 't', startTime: 0 }],
+            globalSettings: { resolution: { width: 640, height: 360 } }
+        }
+
+        // Espera a que la ruta registre la composición, que ningún worker va a procesar en el test
+        const queuedCompositionId = async (): Promise<string> => {
+            for (;;) {
+                const row = await db('video_compositions').first()
+                if (row) {
+                    return row.id
+                }
+                await new Promise(resolve => setTimeout(resolve, 10))
+            }
+        }
+
+        const composeSync = async (finish: (id: string) => Promise<unknown>) => {
+            const response = request('/api/videos/compose?sync=true', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(composition)
+            })
+            const id = await queuedCompositionId()
+            await finish(id)
+            return { id, response: await response }
+        }
+
+        beforeEach(() => {
+            jest.spyOn(process, 'cwd').mockReturnValue(folder)
+        })
+
+        it('should answer 200 with the download url once the composition completes', async () => {
+            const videoPath = path.join(folder, 'video.mp4')
+            const { id, response } = await composeSync(id =>
+                updateVideoCompositionProgress(id, { status: 'completed', steps: ['video_composed'], video_path: videoPath })
+            )
+
+            expect(response.status).toBe(200)
+            expect(await response.json()).toMatchObject({
+                status: 'completed',
+                id,
+                steps: ['record_creation_success', 'job_queued', 'video_composed'],
+                download_url: `/api/videos/${id}/download`,
+                hls_url: null
+            })
+        })
+
+        it('should answer 200 with the failed status when the render fails', async () => {
+            const { id, response } = await composeSync(id =>
+                updateVideoCompositionProgress(id, { status: 'failed', steps: ['compose_video_failure'] })
+            )
+
+            expect(response.status).toBe(200)
+            expect(await response.json()).toMatchObject({
+                status: 'failed',
+                id,
+                steps: ['record_creation_success', 'job_queued', 'compose_video_failure'],
+                download_url: null
+            })
+        })
+
+        it('should answer 200 with the cancelled status when the composition is cancelled', async () => {
+            const { id, response } = await composeSync(id => cancelVideoComposition(id))
+
+            expect(response.status).toBe(200)
+            expect(await response.json()).toMatchObject({
+                status: 'cancelled',
+                id,
+                steps: ['record_creation_success', 'job_queued', 'composition_cancelled'],
+                download_url: null
+            })
+        })
+    })
+
+    describe('GET /api/videos', () => {
+        const list = async (query: string) => {
+            const response = await request(`/api/videos?${query}`)
+            return { status: response.status, body: await response.json() }
+        }
+        const ids = (body: any) => body.items.map((item: any) => item.id)
+
+        beforeEach(async () => {
+            await insertComposition({ id: 'a', status: 'completed', created_at: '2026-01-01 10:00:00' })
+            await insertComposition({ id: 'b', status: 'failed', created_at: '2026-01-02 10:00:00' })
+            await insertComposition({ id: 'c', status: 'queued', created_at: '2026-01-02 10:00:00' })
+            await insertComposition({ id: 'd', status: 'queued', created_at: '2026-01-03 10:00:00' })
+        })
+
+        it('should list the most recent first, by id between equal dates', async () => {
+            const { status, body } = await list('')
+
+            expect(status).toBe(200)
+            expect(ids(body)).toEqual(['d', 'c', 'b', 'a'])
+            expect(body.next_cursor).toBeNull()
+        })
+
+        it('should filter by one or more statuses', async () => {
+            expect(ids((await list('status=queued')).body)).toEqual(['d', 'c'])
+            expect(ids((await list('status=failed,completed')).body)).toEqual(['b', 'a'])
+        })
+
+        it('should filter by created_at with both ends included', async () => {
+            expect(ids((await list('created_from=2026-01-02T10:00:00Z')).body)).toEqual(['d', 'c', 'b'])
+            expect(ids((await list('created_to=2026-01-02T10:00:00Z')).body)).toEqual(['c', 'b', 'a'])
+            expect(ids((await list('created_from=2026-01-02T00:00:00Z&created_to=2026-01-02T23:59:59Z')).body)).toEqual(['c', 'b'])
+        })
+
+        it('should continue from next_cursor without repeating or skipping compositions', async () => {
+            const first = await list('limit=2')
+            expect(ids(first.body)).toEqual(['d', 'c'])
+
+            // El cursor apunta a "c", que comparte created_at con "b"
+            const second = await list(`limit=2&cursor=${first.body.next_cursor}`)
+            expect(ids(second.body)).toEqual(['b', 'a'])
+            expect(second.body.next_cursor).toBeNull()
+        })
+
+        it('should keep the filters while paginating', async () => {
+            const first = await list('status=queued,failed&limit=1')
+            const second = await list(`status=queued,failed&limit=1&cursor=${first.body.next_cursor}`)
+            const third = await list(`status=queued,failed&limit=1&cursor=${second.body.next_cursor}`)
+
+            expect([first, second, third].map(page => ids(page.body))).toEqual([['d'], ['c'], ['b']])
+            expect(third.body.next_cursor).toBeNull()
+        })
+
+        it('should not return a cursor when the page ends exactly at the last composition', async () => {
+            const { body } = await list('limit=4')
+
+            expect(ids(body)).toHaveLength(4)
+            expect(body.next_cursor).toBeNull()
+        })
+
+        it('should reject cursors that do not decode to a position', async () => {
+            const notJson = Buffer.from('created_at').toString('base64url')
+            const wrongShape = Buffer.from(JSON.stringify(['2026-01-01 10:00:00'])).toString('base64url')
+
+            for (const cursor of ['%%%', notJson, wrongShape]) {
+                const { status, body } = await list(`cursor=${cursor}`)
+                expect(status).toBe(400)
+                expect(body).toEqual({ error: 'El cursor de paginación no es válido.' })
+            }
+        })
+    })
+})
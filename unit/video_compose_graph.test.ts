@@ -0,0 +1,746 @@
+import path from 'path'
+import {
+    applyClipCrossfades,
+    buildComposeGraph,
+    describeMediaSource,
+    resolveMediaSource,
+    resolvePreviewSettings,
+    transformToConcatClips
+} from '../src/api/video_compose_graph'
+
+const globalSettings = { resolution: { width: 1280, height: 720 }, fps: 30 }
+
+const videoAsset = (id: string, duration = 2000, extra: any = {}) => ({
+    id,
+    type: 'video',
+    source: { url: `https://example.com/${id}.mp4` },
+    aspecs: { duration, ...extra },
+    probe: { duration: duration / 1000, has_audio: true }
+})
+
+describe('resolveMediaSource', () => {
+    it('should prefer the library file, then url, then data_base64', () => {
+        expect(resolveMediaSource({ path: '/assets/a.mp4', url: 'https://example.com/a.mp4' })).toEqual({ path: '/assets/a.mp4' })
+        expect(resolveMediaSource({ url: 'https://example.com/a.mp4', data_base64: 'AAAA' })).toEqual({ url: 'https://example.com/a.mp4' })
+        expect(resolveMediaSource({ data_base64: 'AAAA' })).toEqual({ data_base64: 'AAAA' })
+    })
+
+    it('should accept data URLs in content and nothing else', () => {
+        expect(resolveMediaSource({ content: 'data:video/mp4;base64,AAAA' })).toEqual({ data_base64: 'data:video/mp4;base64,AAAA' })
+        expect(resolveMediaSource({ content: 'hello' })).toBeNull()
+        expect(resolveMediaSource(undefined)).toBeNull()
+    })
+
+    it('should describe base64 sources without their content', () => {
+        expect(describeMediaSource({ data_base64: 'AAAA' })).toBe('base64 (4 caracteres)')
+        expect(describeMediaSource({ path: '/assets/abc.mp4' })).toBe('biblioteca (abc.mp4)')
+    })
+})
+
+describe('transformToConcatClips', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined)
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    it('should place the clips on the timeline in startTime order', () => {
+        const data = transformToConcatClips(
+            [videoAsset('a'), videoAsset('b', 3000, { startTrim: 500 })],
+            [
+                { assetId: 'b', startTime: 2000 },
+                { assetId: 'a', startTime: 0 }
+            ],
+            globalSettings
+        )
+
+        expect(data.clips.map(clip => clip.assetId)).toEqual(['a', 'b'])
+        expect(data.clips[1]).toMatchObject({ start: 0.5, timelineStart: 2, duration: 3, layer: 0 })
+        expect(data.duration).toBe(5)
+        expect(data.warnings).toEqual([])
+    })
+
+    it('should skip missing and unused assets with a warning', () => {
+        const data = transformToConcatClips(
+            [videoAsset('a'), videoAsset('unused')],
+            [
+                { assetId: 'a', startTime: 0 },
+                { assetId: 'missing', startTime: 0 }
+            ],
+            globalSettings
+        )
+
+        expect(data.clips).toHaveLength(1)
+        expect(data.warnings).toEqual([
+            'No se encontró el asset con id: missing. Se omitirá.',
+            'El asset unused no se usa en el timeline.'
+        ])
+    })
+
+    it('should report every skipped element for the plan', () => {
+        const data = transformToConcatClips(
+            [
+                { id: 'empty', type: 'text', source: {}, aspecs: { duration: 1000 } },
+                { id: 'doc', type: 'pdf', source: { url: 'https://example.com/a.pdf' }, aspecs: { duration: 1000 } }
+            ],
+            [
+                { assetId: 'empty', startTime: 0 },
+                { assetId: 'doc', startTime: 0 }
+            ],
+            globalSettings
+        )
+
+        expect(data.overlays).toEqual([])
+        expect(data.duration).toBe(0)
+        expect(data.warnings).toEqual([
+            "El asset de texto empty no tiene 'source.content'. Se omitirá.",
+            'Ignorando asset doc de tipo pdf.'
+        ])
+    })
+
+    it('should skip media assets without a source', () => {
+        const data = transformToConcatClips(
+            [{ id: 'a', type: 'video', source: {}, aspecs: { duration: 1000 } }],
+            [{ assetId: 'a', startTime: 0 }],
+            globalSettings
+        )
+
+        expect(data.clips).toEqual([])
+        expect(data.warnings[0]).toContain('El asset a no tiene')
+    })
+})
+
+describe('buildComposeGraph', () => {
+    beforeEach(() => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined)
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    it('should render every clip from its source over the canvas', () => {
+        const data = transformToConcatClips(
+            [videoAsset('a'), videoAsset('b')],
+            [
+                { assetId: 'a', startTime: 0 },
+                { assetId: 'b', startTime: 2000 }
+            ],
+            globalSettings
+        )
+        const graph = buildComposeGraph(data, '/tmp/job')
+
+        expect(graph.inputs.map(input => input.src)).toEqual([
+            'https://example.com/a.mp4',
+            'https://example.com/b.mp4'
+        ])
+        expect(graph.outputs).toEqual(['outv', 'outa'])
+        expect(graph.duration).toBe(4)
+        expect(graph.files).toEqual([])
+    })
+
+    describe('text overlays', () => {
+        const textGraph = (aspecs: any) => buildComposeGraph(
+            transformToConcatClips(
+                [{ id: 't', type: 'text', source: { content: "It's 100%: done" }, aspecs: { duration: 2000, ...aspecs } }],
+                [{ assetId: 't', startTime: 1000 }],
+                globalSettings
+            ),
+            '/tmp/job'
+        )
+
+        it('should read the text from a file instead of the filter', () => {
+            const graph = textGraph({ color: 'yellow@0.8', fontSize: 32 })
+
+            expect(graph.files).toEqual([{ path: '/tmp/job/text_0.txt', content: "It's 100%: done" }])
+            expect(graph.filter).toContain(
+                "[canvas]drawtext=textfile='/tmp/job/text_0.txt':expansion=none:fontsize=32:fontcolor=yellow@0.8:"
+            )
+        })
+
+        it('should use a font family or a file from the fonts folder', () => {
+            expect(textGraph({ font: 'DejaVu Sans' }).filter).toContain("drawtext=font='DejaVu Sans':")
+            expect(textGraph({ font: 'Lato.ttf' }).filter).toContain(
+                `drawtext=fontfile='${path.join(path.resolve('data/fonts'), 'Lato.ttf')}':`
+            )
+        })
+
+        it('should reject fonts that could escape the filter option', () => {
+            expect(() => textGraph({ font: "x':fontcolor=red" })).toThrow("La fuente 'x':fontcolor=red' del texto t no es válida.")
+        })
+    })
+
+    describe('image overlays', () => {
+        it('should loop each image for its window at its position and size', () => {
+            const graph = buildComposeGraph(
+                transformToConcatClips(
+                    [{
+                        id: 'logo',
+                        type: 'image',
+                        source: { url: 'https://example.com/logo.png' },
+                        aspecs: { duration: 3000, resolution: { width: 200, height: 100 }, position: { x: 10, y: 20 } }
+                    }],
+                    [{ assetId: 'logo', startTime: 500 }],
+                    globalSettings
+                ),
+                '/tmp/job'
+            )
+            const filters = graph.filter.split(';')
+
+            expect(graph.inputs).toEqual([{ src: 'https://example.com/logo.png', options: ['-loop', '1', '-t', '3'] }])
+            expect(filters[1]).toBe('[0:v]setpts=PTS-STARTPTS,fps=30,format=yuva420p,scale=200:100,setsar=1,setpts=PTS+0.5/TB[item0]')
+            expect(filters[2]).toBe("[canvas][item0]overlay=x=10:y=20:eof_action=pass:enable='gte(t,0.5)*lt(t,3.5)'[layer0]")
+        })
+
+        it('should keep the original size and center images without resolution or position', () => {
+            const graph = buildComposeGraph(
+                transformToConcatClips(
+                    [{ id: 'logo', type: 'image', source: { url: 'https://example.com/logo.png' }, aspecs: { duration: 1000 } }],
+                    [{ assetId: 'logo', startTime: 0 }],
+                    globalSettings
+                ),
+                '/tmp/job'
+            )
+
+            expect(graph.filter).toContain('[0:v]setpts=PTS-STARTPTS,fps=30,format=yuva420p,setpts=PTS+0/TB[item0]')
+            expect(graph.filter).toContain('overlay=x=(W-w)/2:y=(H-h)/2:')
+        })
+
+        it('should repeat gifs with -stream_loop instead of the image2 -loop option', () => {
+            const gif = 'data:image/gif;base64,' + Buffer.from('GIF89a').toString('base64')
+            const graph = buildComposeGraph(
+                transformToConcatClips(
+                    [
+                        { id: 'sticker', type: 'image', source: { data_base64: gif }, aspecs: { duration: 2000 } },
+                        { id: 'remote', type: 'image', source: { url: 'https://example.com/anim.GIF?v=2' }, aspecs: { duration: 1000 } }
+                    ],
+                    [{ assetId: 'sticker', startTime: 0 }, { assetId: 'remote', startTime: 0 }],
+                    globalSettings
+                ),
+                '/tmp/job'
+            )
+
+            expect(graph.inputs).toEqual([
+                { src: path.join('/tmp/job', 'image_0.gif'), options: ['-stream_loop', '-1', '-t', '2'] },
+                { src: 'https://example.com/anim.GIF?v=2', options: ['-stream_loop', '-1', '-t', '1'] }
+            ])
+        })
+    })
+
+    describe('transitions', () => {
+        it('should resolve transitions with the timeline override and the default duration', () => {
+            const data = transformToConcatClips(
+                [videoAsset('a', 2000, {
+                    effects: { transitionIn: { type: 'fade', duration: 1000 }, transitionOut: { type: 'fade' } }
+                })],
+                [{ assetId: 'a', startTime: 0, override: { effects: { transitionIn: { type: 'slide', direction: 'up' } } } }],
+                globalSettings
+            )
+
+            expect(data.clips[0].transitionIn).toEqual({ type: 'slide', duration: 1, direction: 'up' })
+            expect(data.clips[0].transitionOut).toEqual({ type: 'fade', duration: 0.5, direction: 'left' })
+        })
+
+        it('should slide clips in from the opposite edge and fade them out with alpha', () => {
+            const graph = buildComposeGraph(
+                transformToConcatClips(
+                    [videoAsset('a', 2000, {
+                        effects: {
+                            transitionIn: { type: 'slide', direction: 'right', duration: 1000 },
+                            transitionOut: { type: 'fade' }
+                        }
+                    })],
+                    [{ assetId: 'a', startTime: 0 }],
+                    globalSettings
+                ),
+                '/tmp/job'
+            )
+
+            expect(graph.filter).toContain('fade=t=out:st=1.5:d=0.5:alpha=1')
+            expect(graph.filter).toContain("overlay=x='(W-w)/2-W*(1-clip((t-0)/1,0,1))':y=(H-h)/2:")
+            expect(graph.filter).toContain('afade=t=in:st=0:d=1,afade=t=out:st=1.5:d=0.5')
+        })
+
+        it('should crossfade adjacent clips on the same layer', () => {
+            const data = transformToConcatClips(
+                [videoAsset('a'), videoAsset('b', 2000, { effects: { transitionIn: { type: 'fade', duration: 1000 } } })],
+                [
+                    { assetId: 'a', startTime: 0 },
+                    { assetId: 'b', startTime: 2000 }
+                ],
+                globalSettings
+            )
+            const [outgoing, incoming] = applyClipCrossfades(data.clips)
+
+            expect(outgoing).toMatchObject({ duration: 3, crossfadeOut: 1, transitionOut: null })
+            expect(incoming).toMatchObject({ duration: 2, transitionIn: { type: 'fade', duration: 1 } })
+            expect(data.clips[0].duration).toBe(2)
+
+            const graph = buildComposeGraph(data, '/tmp/job')
+            expect(graph.duration).toBe(4)
+            expect(graph.filter).toContain("enable='gte(t,0)*lt(t,3)'")
+            expect(graph.filter).toContain('fade=t=in:st=0:d=1:alpha=1,setpts=PTS+2/TB[item1]')
+            expect(graph.filter).toContain('[0:a]atrim=start=0:duration=3,')
+            expect(graph.filter).toContain('afade=t=out:st=2:d=1,adelay=0:all=1[aud0]')
+        })
+
+        it('should not crossfade clips with a gap or on different layers', () => {
+            const transitionOut = { type: 'fade' }
+            const data = transformToConcatClips(
+                [videoAsset('a', 2000, { effects: { transitionOut } }), videoAsset('b'), videoAsset('c')],
+                [
+                    { assetId: 'a', startTime: 0 },
+                    { assetId: 'b', startTime: 2500 },
+                    { assetId: 'c', startTime: 2000, layer: 1 }
+                ],
+                globalSettings
+            )
+
+            expect(applyClipCrossfades(data.clips).map(clip => clip.duration)).toEqual([2, 2, 2])
+        })
+    })
+
+    describe('audio tracks', () => {
+        it('should mix audio tracks at their startTime with volume and fades over silence', () => {
+            const data = transformToConcatClips(
+                [
+                    {
+                        id: 'music',
+                        type: 'audio',
+                        source: { url: 'https://example.com/music.mp3' },
+                        aspecs: {
+                            duration: 4000,
+                            startTrim: 1000,
+                            volume: 0.5,
+                            effects: { transitionIn: { type: 'fade', duration: 1000 }, transitionOut: { type: 'slide', duration: 2000 } }
+                        }
+                    },
+                    videoAsset('a', 6000, { volume: 0 })
+                ],
+                [
+                    { assetId: 'music', startTime: 1500 },
+                    { assetId: 'a', startTime: 0 }
+                ],
+                globalSettings
+            )
+
+            expect(data.audioTracks).toEqual([{
+                assetId: 'music',
+                source: { url: 'https://example.com/music.mp3' },
+                start: 1,
+                duration: 4,
+                timelineStart: 1.5,
+                volume: 0.5,
+                fadeIn: 1,
+                fadeOut: 2,
+                speed: 1
+            }])
+
+            const graph = buildComposeGraph(data, '/tmp/job')
+            const filters = graph.filter.split(';')
+            expect(graph.inputs.map(input => input.src)).toEqual(['https://example.com/a.mp4', 'https://example.com/music.mp3'])
+            expect(filters).toContain('anullsrc=r=48000:cl=stereo,atrim=duration=6[silence]')
+            expect(filters).toContain(
+                '[0:a]atrim=start=0:duration=6,asetpts=PTS-STARTPTS,aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo,volume=0,adelay=0:all=1[aud0]'
+            )
+            expect(filters).toContain(
+                '[1:a]atrim=start=1:duration=4,asetpts=PTS-STARTPTS,aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo,volume=0.5,afade=t=in:st=0:d=1,afade=t=out:st=2:d=2,adelay=1500:all=1[aud1]'
+            )
+            expect(filters).toContain('[silence][aud0][aud1]amix=inputs=3:duration=first:normalize=0[outa]')
+        })
+
+        it('should leave out the audio of clips that ffprobe found without audio', () => {
+            const data = transformToConcatClips(
+                [{ ...videoAsset('a'), probe: { duration: 2, has_audio: false } }],
+                [{ assetId: 'a', startTime: 0 }],
+                globalSettings
+            )
+
+            expect(buildComposeGraph(data, '/tmp/job').filter).toContain('[silence]anull[outa]')
+        })
+
+        it('should not map the audio of clips that were not probed', () => {
+            const data = transformToConcatClips(
+                [{ ...videoAsset('a'), probe: undefined }],
+                [{ assetId: 'a', startTime: 0 }],
+                globalSettings
+            )
+            const filter = buildComposeGraph(data, '/tmp/job').filter
+
+            expect(data.clips[0].hasAudio).toBeUndefined()
+            expect(filter).not.toContain('[0:a]')
+            expect(filter).toContain('[silence]anull[outa]')
+        })
+    })
+
+    describe('layers', () => {
+        it('should draw higher layers on top, in startTime order within a layer', () => {
+            const graph = buildComposeGraph(
+                transformToConcatClips(
+                    [videoAsset('top'), videoAsset('b'), videoAsset('a')],
+                    [
+                        { assetId: 'top', startTime: 0, layer: 2 },
+                        { assetId: 'b', startTime: 3000 },
+                        { assetId: 'a', startTime: 0 }
+                    ],
+                    { ...globalSettings, backgroundColor: '#102030' }
+                ),
+                '/tmp/job'
+            )
+            const overlays = graph.filter.split(';').filter(filter => filter.includes('overlay='))
+
+            expect(graph.filter.startsWith('color=c=#102030:s=1280x720:r=30:d=5,format=yuv420p[canvas]')).toBe(true)
+            expect(graph.inputs.map(input => input.src)).toEqual([
+                'https://example.com/a.mp4',
+                'https://example.com/b.mp4',
+                'https://example.com/top.mp4'
+            ])
+            expect(overlays.map(filter => filter.match(/^\[(\w+)\]\[(\w+)\]/).slice(1))).toEqual([
+                ['canvas', 'item0'],
+                ['layer0', 'item1'],
+                ['layer1', 'item2']
+            ])
+        })
+
+        it('should show each item in a half-open window so adjacent items never overlap', () => {
+            const graph = buildComposeGraph(
+                transformToConcatClips(
+                    [videoAsset('a'), videoAsset('b')],
+                    [
+                        { assetId: 'a', startTime: 0 },
+                        { assetId: 'b', startTime: 2000 }
+                    ],
+                    globalSettings
+                ),
+                '/tmp/job'
+            )
+
+            expect(graph.filter).toContain("enable='gte(t,0)*lt(t,2)'")
+            expect(graph.filter).toContain("enable='gte(t,2)*lt(t,4)'")
+            expect(graph.filter).not.toContain('between(')
+        })
+    })
+
+    describe('input normalization', () => {
+        const clipFilter = (aspecs: any, settings: any = globalSettings) => buildComposeGraph(
+            transformToConcatClips([videoAsset('a', 2000, aspecs)], [{ assetId: 'a', startTime: 0 }], settings),
+            '/tmp/job'
+        ).filter.split(';')[1]
+
+        it('should letterbox clips to the canvas by default', () => {
+            expect(clipFilter({})).toBe(
+                '[0:v]trim=start=0:duration=2,setpts=PTS-STARTPTS,fps=30,format=yuva420p,' +
+                'scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2:color=black@0,setsar=1,' +
+                'setpts=PTS+0/TB[item0]'
+            )
+        })
+
+        it('should apply the fit mode of the asset or globalSettings to its box', () => {
+            expect(clipFilter({ fit: 'cover', resolution: { width: 640, height: 360 } })).toContain(
+                'scale=640:360:force_original_aspect_ratio=increase,crop=640:360,setsar=1'
+            )
+            expect(clipFilter({}, { ...globalSettings, fit: 'stretch', fps: 25 })).toContain(
+                'fps=25,format=yuva420p,scale=1280:720,setsar=1'
+            )
+        })
+    })
+
+    describe('base64 sources', () => {
+        it('should decode base64 sources into the job folder with the extension of their data URL', () => {
+            const graph = buildComposeGraph(
+                transformToConcatClips(
+                    [
+                        { id: 'a', type: 'video', source: { content: 'data:video/webm;base64,aGVsbG8=' }, aspecs: { duration: 1000 } },
+                        { id: 'b', type: 'audio', source: { data_base64: 'd29ybGQ=' }, aspecs: { duration: 1000 } }
+                    ],
+                    [
+                        { assetId: 'a', startTime: 0 },
+                        { assetId: 'b', startTime: 0 }
+                    ],
+                    globalSettings
+                ),
+                '/tmp/job'
+            )
+
+            expect(graph.inputs.map(input => input.src)).toEqual(['/tmp/job/video_0.webm', '/tmp/job/audio_0.mp3'])
+            expect(graph.files.map(file => [file.path, file.content.toString()])).toEqual([
+                ['/tmp/job/video_0.webm', 'hello'],
+                ['/tmp/job/audio_0.mp3', 'world']
+            ])
+        })
+    })
+
+    describe('previews', () => {
+        it('should resolve the preview defaults', () => {
+            expect(resolvePreviewSettings(undefined)).toBeNull()
+            expect(resolvePreviewSettings(true)).toEqual({ height: 360, fps: 15, start: 0, end: null })
+            expect(resolvePreviewSettings({ height: 240, fps: 10, range: { start: 1500, end: 4000 } })).toEqual({
+                height: 240,
+                fps: 10,
+                start: 1.5,
+                end: 4
+            })
+        })
+
+        it('should render the range at a lower frame rate and height', () => {
+            const data = transformToConcatClips([videoAsset('a', 10000)], [{ assetId: 'a', startTime: 0 }], globalSettings)
+            const graph = buildComposeGraph(data, '/tmp/job', resolvePreviewSettings({ height: 241, range: { start: 2000, end: 6000 } }))
+            const filters = graph.filter.split(';')
+
+            expect(graph.duration).toBe(4)
+            expect(filters[0]).toBe('color=c=black:s=1280x720:r=15:d=6,format=yuv420p[canvas]')
+            expect(filters).toContain('[layer0]trim=start=2,setpts=PTS-STARTPTS,scale=-2:242[outv]')
+            expect(filters).toContain('[mixa]atrim=start=2,asetpts=PTS-STARTPTS[outa]')
+            expect(graph.outputOptions).toContain('ultrafast')
+        })
+
+        it('should never scale a preview above the canvas', () => {
+            const data = transformToConcatClips([videoAsset('a')], [{ assetId: 'a', startTime: 0 }], globalSettings)
+
+            expect(buildComposeGraph(data, '/tmp/job', resolvePreviewSettings({ height: 1080 })).filter).toContain('scale=-2:720[outv]')
+        })
+    })
+
+    describe('speed', () => {
+        it('should speed up the video with setpts and chain atempo for its audio', () => {
+            const data = transformToConcatClips(
+                [videoAsset('a', 8000, { effects: { speed: 4 } })],
+                [{ assetId: 'a', startTime: 0 }],
+                globalSettings
+            )
+            const graph = buildComposeGraph(data, '/tmp/job')
+
+            expect(data.duration).toBe(2)
+            expect(graph.filter).toContain('[0:v]trim=start=0:duration=8,setpts=(PTS-STARTPTS)/4,')
+            expect(graph.filter).toContain('[0:a]atrim=start=0:duration=8,asetpts=PTS-STARTPTS,atempo=2.0,atempo=2,aresample=48000')
+        })
+
+        it('should let the timeline override the speed and chain atempo below 0.5', () => {
+            const data = transformToConcatClips(
+                [{ id: 'music', type: 'audio', source: { url: 'https://example.com/music.mp3' }, aspecs: { duration: 3000, effects: { speed: 2 } } }],
+                [{ assetId: 'music', startTime: 0, override: { effects: { speed: 0.3 } } }],
+                globalSettings
+            )
+
+            expect(data.duration).toBe(10)
+            expect(buildComposeGraph(data, '/tmp/job').filter).toContain(
+                '[0:a]atrim=start=0:duration=3,asetpts=PTS-STARTPTS,atempo=0.5,atempo=0.6,aresample=48000'
+            )
+        })
+    })
+
+    describe('animations', () => {
+        it('should resolve slide-in as an entry transition', () => {
+            const data = transformToConcatClips(
+                [videoAsset('a', 2000, { effects: { animation: 'slide-in' } })],
+                [{ assetId: 'a', startTime: 0 }],
+                globalSettings
+            )
+
+            expect(data.clips[0].transitionIn).toEqual({ type: 'slide', duration: 0.5, direction: 'left' })
+            expect(data.clips[0].keyframes).toEqual([])
+        })
+
+        it('should ignore unknown animations with a warning', () => {
+            const data = transformToConcatClips(
+                [videoAsset('a', 2000, { effects: { animation: 'zoom' } })],
+                [{ assetId: 'a', startTime: 0 }],
+                globalSettings
+            )
+
+            expect(data.clips[0].keyframes).toEqual([])
+            expect(data.warnings).toEqual(["La animación 'zoom' del asset a no existe (kenburns, slide-in, pop); se ignorará."])
+        })
+
+        it('should prefer the timeline keyframes over the preset and animate from the center', () => {
+            const data = transformToConcatClips(
+                [videoAsset('a', 2000, { effects: { animation: 'kenburns' }, position: { x: 100, y: 50 } })],
+                [{ assetId: 'a', startTime: 1000, keyframes: [{ time: 0, rotation: 0 }, { time: 1000, rotation: 90 }] }],
+                globalSettings
+            )
+            const graph = buildComposeGraph(data, '/tmp/job')
+
+            expect(data.clips[0].keyframes.map(keyframe => keyframe.rotation)).toEqual([0, 90])
+            expect(graph.filter).toContain("rotate=a='(if(lt(t,1),0+(90)*clip((t-0)/1,0,1),90))*PI/180':c=none:ow='hypot(iw,ih)':oh=ow")
+            expect(graph.filter).toContain('overlay=x=100+(1280-w)/2:y=50+(720-h)/2:')
+        })
+
+        it('should warn that text overlays cannot rotate', () => {
+            const data = transformToConcatClips(
+                [{ id: 't', type: 'text', source: { content: 'Hola' }, aspecs: { duration: 2000 } }],
+                [{ assetId: 't', startTime: 0, keyframes: [{ time: 0, rotation: 45, opacity: 0 }, { time: 500, opacity: 1 }] }],
+                globalSettings
+            )
+
+            expect(data.warnings).toEqual(['El texto t no admite rotación; se ignorarán los keyframes de rotation.'])
+            expect(buildComposeGraph(data, '/tmp/job').filter).toContain(
+                "alpha='min(1,1)*clip(if(lt((t-0),0.5),0+(1)*clip(((t-0)-0)/0.5,0,1),1),0,1)'"
+            )
+        })
+    })
+
+    describe('subtitles', () => {
+        const srt = '1\n00:00:00,500 --> 00:00:02,000\nHola\n\n2\n00:00:03,000 --> 00:00:09,000\nChau\n'
+        const subtitleAsset = (id: string, aspecs: any) => ({ id, type: 'subtitle', source: { content: srt }, aspecs })
+
+        it('should burn subtitles over every layer, shifted to their startTime', () => {
+            const data = transformToConcatClips(
+                [videoAsset('a', 5000), subtitleAsset('s', { color: 'yellow', subtitle: { position: 'top' } })],
+                [
+                    { assetId: 'a', startTime: 0 },
+                    { assetId: 's', startTime: 1000 }
+                ],
+                globalSettings
+            )
+            const graph = buildComposeGraph(data, '/tmp/job')
+
+            expect(data.duration).toBe(5)
+            expect(graph.files).toEqual([{
+                path: '/tmp/job/subtitles_0.srt',
+                content: '1\n00:00:01,500 --> 00:00:03,000\nHola\n\n2\n00:00:04,000 --> 00:00:05,000\nChau\n'
+            }])
+            expect(graph.filter).toContain(
+                "[layer0]subtitles=filename='/tmp/job/subtitles_0.srt':force_style='FontSize=14.4,PrimaryColour=&H0000FFFF,Alignment=8,MarginV=14.4,BorderStyle=1,OutlineColour=&H00000000,Outline=0.8'[subs0]"
+            )
+            expect(graph.filter).toContain('[subs0]null[outv]')
+        })
+
+        it('should load font files from the fonts folder once their family is resolved', () => {
+            const data = transformToConcatClips(
+                [videoAsset('a', 5000), subtitleAsset('s', { font: 'Lato-Light.ttf' })],
+                [
+                    { assetId: 'a', startTime: 0 },
+                    { assetId: 's', startTime: 0 }
+                ],
+                globalSettings
+            )
+
+            expect(() => buildComposeGraph(data, '/tmp/job')).toThrow('La fuente de los subtítulos s no se resolvió')
+
+            data.subtitles[0].style.font = 'Lato Light'
+            expect(buildComposeGraph(data, '/tmp/job').filter).toContain(
+                `fontsdir='${path.resolve('data/fonts')}':force_style='FontName=Lato Light,`
+            )
+        })
+
+        it('should mux soft subtitles as tracks relative to the output', () => {
+            const data = transformToConcatClips(
+                [videoAsset('a', 5000), subtitleAsset('s', { startTrim: 1000, subtitle: { mode: 'soft', language: 'spa' } })],
+                [
+                    { assetId: 'a', startTime: 0 },
+                    { assetId: 's', startTime: 0 }
+                ],
+                globalSettings
+            )
+            const graph = buildComposeGraph(data, '/tmp/job')
+
+            expect(graph.inputs[1]).toEqual({ src: '/tmp/job/subtitles_0.srt', options: [] })
+            expect(graph.files[0].content).toBe('1\n00:00:00,000 --> 00:00:01,000\nHola\n\n2\n00:00:02,000 --> 00:00:05,000\nChau\n')
+            expect(graph.outputOptions.slice(-6)).toEqual(['-map', '1:s', '-metadata:s:s:0', 'language=spa', '-c:s', 'mov_text'])
+        })
+
+        it('should replace invalid colors and skip subtitles without cues', () => {
+            const data = transformToConcatClips(
+                [subtitleAsset('s', { color: 'orange' }), { id: 'e', type: 'subtitle', source: { content: 'WEBVTT' }, aspecs: {} }],
+                [
+                    { assetId: 's', startTime: 0 },
+                    { assetId: 'e', startTime: 0 }
+                ],
+                globalSettings
+            )
+
+            expect(data.subtitles[0].style.color).toBe('&H00FFFFFF')
+            expect(data.warnings).toEqual([
+                "El color 'orange' (color) de los subtítulos s no es válido; se usará white.",
+                'El asset de subtítulos e no contiene cues SRT/WebVTT válidos. Se omitirá.'
+            ])
+        })
+    })
+
+    describe('library assets', () => {
+        it('should read library files from their path without copying them', () => {
+            const graph = buildComposeGraph(
+                transformToConcatClips(
+                    [{ id: 'a', type: 'video', source: { assetRef: 'abc', path: '/data/assets/abc.mp4' }, aspecs: { duration: 1000 } }],
+                    [{ assetId: 'a', startTime: 0 }],
+                    globalSettings
+                ),
+                '/tmp/job'
+            )
+
+            expect(graph.inputs).toEqual([{ src: '/data/assets/abc.mp4', options: [] }])
+            expect(graph.files).toEqual([])
+        })
+    })
+
+    describe('output formats', () => {
+        const formatGraph = (outputFormat: string, extra: any = {}) => {
+            const data = transformToConcatClips(
+                [videoAsset('a')],
+                [{ assetId: 'a', startTime: 0 }],
+                { ...globalSettings, outputFormat, ...extra }
+            )
+            return { data, graph: buildComposeGraph(data, '/tmp/job') }
+        }
+
+        it('should render gifs without audio, at the animation frame rate and width, with their own palette', () => {
+            const { data, graph } = formatGraph('gif', { animatedImage: { fps: 10, width: 320, loop: false } })
+            const filters = graph.filter.split(';')
+
+            expect(data.warnings).toEqual(["El formato 'gif' no tiene audio; se ignorará el audio de la composición."])
+            expect(graph.outputs).toEqual(['outv'])
+            expect(graph.outputOptions).toEqual(['-loop', '-1'])
+            expect(filters[0]).toBe('color=c=black:s=1280x720:r=10:d=2,format=yuv420p[canvas]')
+            expect(filters.slice(-3)).toEqual([
+                "[layer0]scale='min(320,iw)':-2:flags=lanczos,split[gifsrc][gifpal]",
+                '[gifpal]palettegen=stats_mode=diff[palette]',
+                '[gifsrc][palette]paletteuse=dither=bayer:bayer_scale=5:diff_mode=rectangle[outv]'
+            ])
+            expect(graph.filter).not.toContain('anullsrc')
+        })
+
+        it('should encode webp with its fixed codec options', () => {
+            const { graph } = formatGraph('webp')
+
+            expect(graph.outputOptions).toEqual(['-c:v', 'libwebp', '-quality', '75', '-compression_level', '4', '-loop', '0'])
+            expect(graph.filter).toContain("[layer0]scale='min(480,iw)':-2:flags=lanczos[outv]")
+        })
+
+        it('should render audio-only formats without a canvas', () => {
+            const data = transformToConcatClips(
+                [{ id: 'music', type: 'audio', source: { url: 'https://example.com/music.mp3' }, aspecs: { duration: 2000 } }],
+                [{ assetId: 'music', startTime: 0 }],
+                { outputFormat: 'mp3' }
+            )
+            const graph = buildComposeGraph(data, '/tmp/job')
+
+            expect(graph.outputs).toEqual(['outa'])
+            expect(graph.filter).not.toContain('[canvas]')
+            expect(graph.outputOptions).toEqual(['-c:a', 'libmp3lame', '-b:a', '192k'])
+        })
+
+        it('should reject visual assets in audio-only formats', () => {
+            jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+            expect(() => formatGraph('wav')).toThrow("El formato 'wav' es solo audio; la composición no puede incluir el asset a de tipo video.")
+        })
+
+        it('should skip soft subtitles in formats without subtitle tracks', () => {
+            const data = transformToConcatClips(
+                [videoAsset('a'), { id: 's', type: 'subtitle', source: { content: '1\n00:00:00,000 --> 00:00:01,000\nHola\n' }, aspecs: { subtitle: { mode: 'soft' } } }],
+                [
+                    { assetId: 'a', startTime: 0 },
+                    { assetId: 's', startTime: 0 }
+                ],
+                { ...globalSettings, outputFormat: 'webp' }
+            )
+
+            expect(data.subtitles).toEqual([])
+            expect(data.warnings[0]).toBe(`El formato 'webp' no admite subtítulos "soft"; se omitirán los subtítulos s.`)
+        })
+    })
+})
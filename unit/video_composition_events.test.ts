@@ -0,0 +1,30 @@
+import { CompositionEvent, emitCompositionEvent, subscribeToComposition } from '../src/api/video_composition_events'
+
+describe('subscribeToComposition', () => {
+    const progress = { percent: 50, frame: 30, fps: 30, eta_seconds: 1, out_time: 1 }
+
+    it('should only deliver the events of its composition', () => {
+        const events: CompositionEvent[] = []
+        const unsubscribe = subscribeToComposition('a', event => events.push(event))
+
+        emitCompositionEvent({ type: 'step', id: 'a', steps: ['Descargando fuentes'], status: 'in_progress' })
+        emitCompositionEvent({ type: 'progress', id: 'b', progress })
+        emitCompositionEvent({ type: 'progress', id: 'a', progress })
+        unsubscribe()
+
+        expect(events).toEqual([
+            { type: 'step', id: 'a', steps: ['Descargando fuentes'], status: 'in_progress' },
+            { type: 'progress', id: 'a', progress }
+        ])
+    })
+
+    it('should stop delivering events after unsubscribing', () => {
+        const listener = jest.fn()
+        const unsubscribe = subscribeToComposition('a', listener)
+
+        unsubscribe()
+        emitCompositionEvent({ type: 'progress', id: 'a', progress })
+
+        expect(listener).not.toHaveBeenCalled()
+    })
+})
@@ -0,0 +1,93 @@
+import { buildEncodingOptions, resolveEncodingSettings } from '../src/api/video_encoding'
+
+describe('resolveEncodingSettings', () => {
+    it('should use the format defaults without encoding options', () => {
+        expect(resolveEncodingSettings('mp4', undefined, 30)).toEqual({
+            preset: null,
+            videoCodec: 'libx264',
+            crf: 23,
+            videoBitrate: null,
+            encoderPreset: null,
+            pixelFormat: 'yuv420p',
+            gop: null,
+            audioCodec: 'aac',
+            audioBitrate: 192,
+            audioSampleRate: null,
+            faststart: true
+        })
+        expect(resolveEncodingSettings('gif', undefined, 30)).toBeNull()
+    })
+
+    it('should apply the preset and let explicit values win', () => {
+        expect(resolveEncodingSettings('mp4', { preset: 'web', audioBitrate: 96 }, 25)).toMatchObject({
+            preset: 'web',
+            crf: 23,
+            encoderPreset: 'medium',
+            gop: 50,
+            audioBitrate: 96,
+            audioSampleRate: 48000
+        })
+        expect(resolveEncodingSettings('webm', { preset: 'social', crf: 40 }, 30)).toMatchObject({
+            videoCodec: 'libvpx-vp9',
+            crf: 40,
+            encoderPreset: null,
+            audioCodec: 'libopus',
+            faststart: false
+        })
+    })
+
+    it('should pick the archive codecs of each container', () => {
+        expect(resolveEncodingSettings('mov', { preset: 'archive' }, 30)).toMatchObject({
+            videoCodec: 'prores_ks',
+            crf: null,
+            pixelFormat: 'yuv422p10le',
+            audioCodec: 'pcm_s24le',
+            audioBitrate: null
+        })
+        expect(resolveEncodingSettings('m4a', { preset: 'archive' }, 30)).toMatchObject({ videoCodec: null, audioCodec: 'alac' })
+    })
+
+    it('should use the default quality of the chosen codec and drop crf with a bitrate', () => {
+        expect(resolveEncodingSettings('mp4', { videoCodec: 'libx265' }, 30).crf).toBe(28)
+        expect(resolveEncodingSettings('mp4', { videoBitrate: 4000 }, 30)).toMatchObject({ crf: null, videoBitrate: 4000 })
+    })
+
+    it('should reject options that do not apply to the format or codec', () => {
+        expect(() => resolveEncodingSettings('gif', { crf: 20 }, 30)).toThrow("El formato 'gif' no admite 'encoding'; use 'animatedImage'.")
+        expect(() => resolveEncodingSettings('mp3', { crf: 20 }, 30)).toThrow("El formato 'mp3' es solo audio; 'encoding.crf' no aplica.")
+        expect(() => resolveEncodingSettings('webm', { videoCodec: 'libx264' }, 30)).toThrow(
+            "El formato 'webm' no admite el códec de video 'libx264' (admite: libvpx-vp9, libaom-av1)."
+        )
+        expect(() => resolveEncodingSettings('mp4', { crf: 60 }, 30)).toThrow("'crf' debe estar entre 0 y 51 con 'libx264'.")
+        expect(() => resolveEncodingSettings('mov', { videoCodec: 'prores_ks', crf: 10 }, 30)).toThrow("El códec 'prores_ks' no admite 'crf'.")
+        expect(() => resolveEncodingSettings('webm', { encoderPreset: 'slow' }, 30)).toThrow(
+            "El códec 'libvpx-vp9' no admite 'encoderPreset' (solo libx264 y libx265)."
+        )
+        expect(() => resolveEncodingSettings('wav', { audioBitrate: 128 }, 30)).toThrow(
+            "El códec 'pcm_s16le' no tiene pérdida; no admite 'audioBitrate'."
+        )
+        expect(() => resolveEncodingSettings('webm', { faststart: true }, 30)).toThrow(
+            "'faststart' solo aplica a mp4, mov y m4a, no a 'webm'."
+        )
+    })
+})
+
+describe('buildEncodingOptions', () => {
+    it('should build the codec options of the encoding', () => {
+        expect(buildEncodingOptions(resolveEncodingSettings('mp4', { preset: 'web', videoCodec: 'libx265' }, 30), false)).toEqual([
+            '-c:v', 'libx265', '-crf', '28', '-preset', 'medium', '-pix_fmt', 'yuv420p', '-g', '60', '-tag:v', 'hvc1',
+            '-c:a', 'aac', '-b:a', '128k', '-ar', '48000', '-movflags', '+faststart'
+        ])
+        expect(buildEncodingOptions(resolveEncodingSettings('webm', { videoBitrate: 2000 }, 30), false)).toEqual([
+            '-c:v', 'libvpx-vp9', '-b:v', '2000k', '-pix_fmt', 'yuv420p', '-row-mt', '1', '-c:a', 'libopus', '-b:a', '128k'
+        ])
+    })
+
+    it('should append the fast options of the codec for previews', () => {
+        expect(buildEncodingOptions(resolveEncodingSettings('webm', undefined, 30), true)).toEqual([
+            '-c:v', 'libvpx-vp9', '-crf', '32', '-b:v', '0', '-pix_fmt', 'yuv420p', '-row-mt', '1', '-deadline', 'realtime', '-cpu-used', '8',
+            '-c:a', 'libopus', '-b:a', '128k'
+        ])
+        expect(buildEncodingOptions(resolveEncodingSettings('wav', undefined, 30), true)).toEqual(['-c:a', 'pcm_s16le'])
+    })
+})
@@ -0,0 +1,43 @@
+import path from 'path'
+import { FFMPEG_COLOR_PATTERN, FONT_NAME_PATTERN, isFontFile, resolveFontPath } from '../src/api/video_fonts'
+
+describe('FONT_NAME_PATTERN', () => {
+    it('should accept family names and font files', () => {
+        expect(FONT_NAME_PATTERN.test('DejaVu Sans')).toBe(true)
+        expect(FONT_NAME_PATTERN.test('Lato-Light.ttf')).toBe(true)
+        expect(FONT_NAME_PATTERN.test('Noto_Sans_JP')).toBe(true)
+    })
+
+    it('should reject values that break the filter option or leave the fonts folder', () => {
+        for (const font of ["Arial':fontcolor=red", 'a:b', 'a\\b', '../secret.ttf', '/etc/fonts/x.ttf', ' Arial', '']) {
+            expect(FONT_NAME_PATTERN.test(font)).toBe(false)
+        }
+    })
+})
+
+describe('FFMPEG_COLOR_PATTERN', () => {
+    it('should accept color names and hex colors with an optional opacity', () => {
+        for (const color of ['white', 'Red', '#ff0000', '0xFF000080', 'black@0.5', '#000000@1']) {
+            expect(FFMPEG_COLOR_PATTERN.test(color)).toBe(true)
+        }
+    })
+
+    it('should reject other values', () => {
+        for (const color of ['white:x=0', "red'", '#fff', '#ff00000', 'black@2', 'black@', 'rgb(0,0,0)']) {
+            expect(FFMPEG_COLOR_PATTERN.test(color)).toBe(false)
+        }
+    })
+})
+
+describe('resolveFontPath', () => {
+    it('should resolve font files inside the fonts folder', () => {
+        expect(isFontFile('Lato.TTF')).toBe(true)
+        expect(isFontFile('Lato')).toBe(false)
+        expect(resolveFontPath('Lato.ttf')).toBe(path.join(path.resolve('data/fonts'), 'Lato.ttf'))
+    })
+
+    it('should throw for family names and invalid file names', () => {
+        expect(() => resolveFontPath('Lato')).toThrow("La fuente 'Lato' no es un archivo de fuente válido.")
+        expect(() => resolveFontPath('../Lato.ttf')).toThrow()
+    })
+})
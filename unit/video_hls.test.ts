@@ -0,0 +1,107 @@
+import { ENV } from '../src/server/global_variables'
+import {
+    buildHlsPackageCommand,
+    getHlsContentType,
+    resolveHlsFile,
+    resolveHlsSettings,
+    signHlsAccess,
+    verifyHlsSignature
+} from '../src/api/video_hls'
+
+describe('resolveHlsSettings', () => {
+    it('should drop the renditions above the canvas with a warning', () => {
+        const warn = jest.fn()
+
+        expect(resolveHlsSettings(true, 720, warn)).toEqual({
+            segmentDuration: 6,
+            renditions: [
+                { name: '720p', height: 720, videoBitrate: 2800, audioBitrate: 128 },
+                { name: '480p', height: 480, videoBitrate: 1400, audioBitrate: 128 }
+            ]
+        })
+        expect(warn).toHaveBeenCalledWith('Las variantes HLS 1080p superan el alto del lienzo (720px) y se omitirán.')
+    })
+
+    it('should sort the requested renditions and round their height to an even number', () => {
+        const settings = resolveHlsSettings(
+            { segmentDuration: 4, renditions: [{ height: 361, audioBitrate: 96 }, { height: 720, videoBitrate: 3000 }] },
+            1080,
+            jest.fn()
+        )
+
+        expect(settings).toEqual({
+            segmentDuration: 4,
+            renditions: [
+                { name: '720p', height: 720, videoBitrate: 3000, audioBitrate: 128 },
+                { name: '362p', height: 362, videoBitrate: 1400, audioBitrate: 96 }
+            ]
+        })
+    })
+
+    it('should fall back to the canvas height when no rendition fits', () => {
+        expect(resolveHlsSettings({ renditions: [{ height: 1080 }] }, 360, jest.fn()).renditions).toEqual([
+            { name: '360p', height: 360, videoBitrate: 800, audioBitrate: 128 }
+        ])
+        expect(resolveHlsSettings(undefined, 720, jest.fn())).toBeNull()
+    })
+})
+
+describe('buildHlsPackageCommand', () => {
+    it('should scale every rendition from one split and map them to the variant streams', () => {
+        const command = buildHlsPackageCommand(resolveHlsSettings(true, 1080, jest.fn()), '/tmp/job/hls')
+
+        expect(command.filter).toBe(
+            '[0:v]split=3[hls0src][hls1src][hls2src];[hls0src]scale=-2:1080[hls0];[hls1src]scale=-2:720[hls1];[hls2src]scale=-2:480[hls2]'
+        )
+        expect(command.output).toBe('/tmp/job/hls/%v/playlist.m3u8')
+        expect(command.outputOptions).toEqual(expect.arrayContaining([
+            '-force_key_frames', 'expr:gte(t,n_forced*6)',
+            '-hls_segment_filename', '/tmp/job/hls/%v/segment_%04d.ts',
+            '-var_stream_map', 'v:0,a:0,name:1080p v:1,a:1,name:720p v:2,a:2,name:480p'
+        ]))
+        expect(command.outputOptions.slice(0, 12)).toEqual([
+            '-map', '[hls0]', '-map', '0:a:0', '-b:v:0', '5000k', '-maxrate:v:0', '5500k', '-bufsize:v:0', '10000k', '-b:a:0', '128k'
+        ])
+        expect(command.result.renditions.map(rendition => rendition.playlist)).toEqual([
+            '1080p/playlist.m3u8',
+            '720p/playlist.m3u8',
+            '480p/playlist.m3u8'
+        ])
+    })
+
+    it('should not split a single rendition', () => {
+        const command = buildHlsPackageCommand(resolveHlsSettings({ renditions: [{ height: 720 }] }, 720, jest.fn()), '/tmp/hls')
+
+        expect(command.filter).toBe('[0:v]scale=-2:720[hls0]')
+    })
+})
+
+describe('HLS signed access', () => {
+    const expires = Math.floor(Date.now() / 1000) + 3600
+
+    it('should accept signatures made with a current API key', () => {
+        expect(verifyHlsSignature('a', expires, signHlsAccess(ENV.API_KEYS[0], 'a', expires))).toBe(true)
+    })
+
+    it('should reject other compositions, expired links, revoked keys and malformed signatures', () => {
+        const signature = signHlsAccess(ENV.API_KEYS[0], 'a', expires)
+        const expired = Math.floor(Date.now() / 1000) - 1
+
+        expect(verifyHlsSignature('b', expires, signature)).toBe(false)
+        expect(verifyHlsSignature('a', expired, signHlsAccess(ENV.API_KEYS[0], 'a', expired))).toBe(false)
+        expect(verifyHlsSignature('a', expires, signHlsAccess('revoked_key', 'a', expires))).toBe(false)
+        expect(verifyHlsSignature('a', expires, 'abc')).toBe(false)
+    })
+})
+
+describe('resolveHlsFile', () => {
+    it('should only serve masters, playlists and segments inside the HLS folder', () => {
+        expect(resolveHlsFile('master.m3u8')).toBe('master.m3u8')
+        expect(resolveHlsFile('720p/segment_0001.ts')).toBe('720p/segment_0001.ts')
+        for (const file of ['../database.sqlite', '720p/../../x.ts', '/etc/passwd', 'a.mp4', '720p/a/b.ts']) {
+            expect(resolveHlsFile(file)).toBeNull()
+        }
+        expect(getHlsContentType('720p/playlist.m3u8')).toBe('application/vnd.apple.mpegurl')
+        expect(getHlsContentType('720p/segment_0001.ts')).toBe('video/mp2t')
+    })
+})
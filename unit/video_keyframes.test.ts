@@ -0,0 +1,53 @@
+import { keyframeExpression, presetKeyframes, resolveKeyframes } from '../src/api/video_keyframes'
+
+describe('resolveKeyframes', () => {
+    it('should sort the keyframes and convert their times to seconds', () => {
+        expect(resolveKeyframes([{ time: 1500, x: 10, easing: 'ease-in' }, { time: 0, x: 0 }])).toEqual([
+            { time: 0, x: 0, easing: 'linear' },
+            { time: 1.5, x: 10, easing: 'ease-in' }
+        ])
+        expect(resolveKeyframes(undefined)).toEqual([])
+    })
+})
+
+describe('keyframeExpression', () => {
+    const keyframes = resolveKeyframes([
+        { time: 1000, x: 100, easing: 'ease-in' },
+        { time: 0, x: 0 },
+        { time: 3000, x: 50, y: 10 }
+    ])
+
+    it('should interpolate each segment with the easing of its first keyframe', () => {
+        expect(keyframeExpression(keyframes, 'x', 't')).toBe(
+            'if(lt(t,1),0+(100)*clip((t-0)/1,0,1),if(lt(t,3),100+(-50)*pow(clip((t-1)/2,0,1),2),50))'
+        )
+    })
+
+    it('should hold the value of a single keyframe and skip properties without keyframes', () => {
+        expect(keyframeExpression(keyframes, 'y', 't')).toBe('10')
+        expect(keyframeExpression(keyframes, 'rotation', 't')).toBeNull()
+    })
+
+    it('should jump between keyframes at the same time', () => {
+        expect(keyframeExpression(resolveKeyframes([{ time: 0, opacity: 0 }, { time: 0, opacity: 1 }]), 'opacity', 't')).toBe(
+            'if(lt(t,0),1,1)'
+        )
+    })
+})
+
+describe('presetKeyframes', () => {
+    it('should zoom in slowly over the whole element with kenburns', () => {
+        expect(keyframeExpression(presetKeyframes('kenburns', 4), 'scale', '(t-2)')).toBe(
+            'if(lt((t-2),4),1+(0.15)*clip(((t-2)-0)/4,0,1),1.15)'
+        )
+    })
+
+    it('should keep the pop keyframes inside short elements', () => {
+        expect(presetKeyframes('pop', 0.2).map(keyframe => keyframe.time)).toEqual([0, 0.2, 0.2])
+    })
+
+    it('should return no keyframes for slide-in and unknown presets', () => {
+        expect(presetKeyframes('slide-in', 2)).toEqual([])
+        expect(presetKeyframes(undefined, 2)).toEqual([])
+    })
+})
@@ -0,0 +1,33 @@
+import {
+    animatedImageLoopOptions,
+    AUDIO_OUTPUT_FORMATS,
+    getOutputContentType,
+    resolveAnimatedImageSettings
+} from '../src/api/video_output_formats'
+
+describe('output formats', () => {
+    it('should list the audio-only formats', () => {
+        expect(AUDIO_OUTPUT_FORMATS).toEqual(['mp3', 'wav', 'm4a'])
+    })
+
+    it('should resolve the Content-Type from the file extension', () => {
+        expect(getOutputContentType('/data/composedVideos/a.webm')).toBe('video/webm')
+        expect(getOutputContentType('a.GIF')).toBe('image/gif')
+        expect(getOutputContentType('a.m4a')).toBe('audio/mp4')
+        expect(getOutputContentType('a.txt')).toBeUndefined()
+    })
+})
+
+describe('animated images', () => {
+    it('should resolve the animatedImage defaults', () => {
+        expect(resolveAnimatedImageSettings(undefined)).toEqual({ fps: 15, width: 480, loop: true })
+        expect(resolveAnimatedImageSettings({ fps: 10, loop: false })).toEqual({ fps: 10, width: 480, loop: false })
+    })
+
+    it('should map loop to the -loop value of each muxer', () => {
+        expect(animatedImageLoopOptions('gif', { fps: 15, width: 480, loop: true })).toEqual(['-loop', '0'])
+        expect(animatedImageLoopOptions('gif', { fps: 15, width: 480, loop: false })).toEqual(['-loop', '-1'])
+        expect(animatedImageLoopOptions('webp', { fps: 15, width: 480, loop: false })).toEqual(['-loop', '1'])
+        expect(animatedImageLoopOptions('mp4', { fps: 15, width: 480, loop: false })).toEqual([])
+    })
+})
@@ -0,0 +1,74 @@
+import { buildThumbnailVtt, listPreviewFiles, resolveSpriteLayout } from '../src/api/video_previews'
+
+describe('buildThumbnailVtt', () => {
+    it('should point each cue to its tile of the sprite', () => {
+        expect(buildThumbnailVtt('sprite.jpg', 5.5, 2, 2, 160, 90)).toBe([
+            'WEBVTT',
+            '',
+            '00:00:00.000 --> 00:00:02.000',
+            'sprite.jpg#xywh=0,0,160,90',
+            '',
+            '00:00:02.000 --> 00:00:04.000',
+            'sprite.jpg#xywh=160,0,160,90',
+            '',
+            '00:00:04.000 --> 00:00:05.500',
+            'sprite.jpg#xywh=0,90,160,90',
+            ''
+        ].join('\n'))
+    })
+
+    it('should format times over an hour', () => {
+        expect(buildThumbnailVtt('sprite.jpg', 3725, 3720, 10, 160, 90)).toContain('01:02:00.000 --> 01:02:05.000')
+    })
+})
+
+describe('listPreviewFiles', () => {
+    it('should list the poster, thumbnails and sprite files', () => {
+        expect(listPreviewFiles({
+            folder: '/tmp/previews/a',
+            poster: 'poster.jpg',
+            thumbnails: ['thumb_01.jpg', 'thumb_02.jpg'],
+            sprite: { image: 'sprite.jpg', vtt: 'sprite.vtt', interval: 2000, columns: 5, width: 160, height: 90 }
+        })).toEqual(['poster.jpg', 'thumb_01.jpg', 'thumb_02.jpg', 'sprite.jpg', 'sprite.vtt'])
+        expect(listPreviewFiles({ folder: '/tmp/previews/a', poster: null, thumbnails: [], sprite: null })).toEqual([])
+    })
+})
+
+describe('resolveSpriteLayout', () => {
+    it('should keep the requested interval and columns within the limits', () => {
+        const warnings: string[] = []
+
+        expect(resolveSpriteLayout(60, { interval: 5000, columns: 10 }, 160, 90, message => warnings.push(message))).toEqual({
+            interval: 5,
+            count: 12,
+            columns: 10,
+            rows: 2
+        })
+        expect(resolveSpriteLayout(3, { interval: 1000, columns: 10 }, 160, 90, message => warnings.push(message)).columns).toBe(3)
+        expect(warnings).toEqual([])
+    })
+
+    it('should widen the interval of long videos to cover them with the maximum of tiles', () => {
+        const warnings: string[] = []
+        const layout = resolveSpriteLayout(4 * 3600, { interval: 1000, columns: 10 }, 160, 90, message => warnings.push(message))
+
+        expect(layout).toEqual({ interval: 48, count: 300, columns: 10, rows: 30 })
+        expect(buildThumbnailVtt('sprite.jpg', 4 * 3600, layout.interval, layout.columns, 160, 90)).toContain('04:00:00.000')
+        expect(warnings).toEqual([
+            'El sprite tendría 14400 miniaturas (máximo 300); se generará una cada 48000 ms en lugar de cada 1000 ms.'
+        ])
+    })
+
+    it('should keep the sprite sides under the maximum size', () => {
+        const warnings: string[] = []
+        const layout = resolveSpriteLayout(600, { interval: 1000, columns: 50 }, 1920, 1080, message => warnings.push(message))
+
+        expect(layout).toEqual({ interval: 5, count: 120, columns: 8, rows: 15 })
+        expect(layout.columns * 1920).toBeLessThanOrEqual(16384)
+        expect(layout.rows * 1080).toBeLessThanOrEqual(16384)
+        expect(warnings).toEqual([
+            'El sprite admite hasta 8 columnas de 1920 px; se usarán 8 en lugar de 50.',
+            'El sprite tendría 600 miniaturas (máximo 120); se generará una cada 5000 ms en lugar de cada 1000 ms.'
+        ])
+    })
+})
@@ -0,0 +1,222 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { ENV } from '../src/server/global_variables'
+import { readFontFamilyName } from '../src/api/video_fonts'
+import {
+    buildSubtitleForceStyle,
+    formatSrt,
+    loadSubtitleFonts,
+    parseSubtitles,
+    shiftCues,
+    SubtitleStyle,
+    toAssColor
+} from '../src/api/video_subtitles'
+
+/**
+ * Fuente TrueType mínima: solo la tabla "name" con los registros de nameID 1 (familia) indicados.
+ */
+const buildFont = (names: Array<{ platformId: number; value: Buffer }>, collection = false) => {
+    const nameTable = Buffer.alloc(6 + names.length * 12)
+    nameTable.writeUInt16BE(names.length, 2)
+    nameTable.writeUInt16BE(nameTable.length, 4)
+    let stringOffset = 0
+    names.forEach(({ platformId, value }, index) => {
+        const record = 6 + index * 12
+        nameTable.writeUInt16BE(platformId, record)
+        nameTable.writeUInt16BE(1, record + 6)
+        nameTable.writeUInt16BE(value.length, record + 8)
+        nameTable.writeUInt16BE(stringOffset, record + 10)
+        stringOffset += value.length
+    })
+
+    const fontOffset = collection ? 16 : 0
+    const header = Buffer.alloc(fontOffset + 28)
+    if (collection) {
+        header.write('ttcf', 0, 'latin1')
+        header.writeUInt32BE(1, 8)
+        header.writeUInt32BE(fontOffset, 12)
+    }
+    header.writeUInt32BE(0x00010000, fontOffset)
+    header.writeUInt16BE(1, fontOffset + 4)
+    header.write('name', fontOffset + 12, 'latin1')
+    header.writeUInt32BE(header.length, fontOffset + 20)
+    return Buffer.concat([header, nameTable, ...names.map(name => name.value)])
+}
+
+const utf16be = (value: string) => Buffer.from(value, 'utf16le').swap16()
+
+describe('parseSubtitles', () => {
+    it('should read SRT cues', () => {
+        expect(parseSubtitles('\uFEFF1\r\n00:00:01,000 --> 00:00:02,500\r\nHola\r\nmundo\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nChau\r\n')).toEqual([
+            { start: 1, end: 2.5, text: 'Hola\nmundo' },
+            { start: 3, end: 4, text: 'Chau' }
+        ])
+    })
+
+    it('should read WebVTT cues and skip headers, notes, settings and invalid cues', () => {
+        const vtt = [
+            'WEBVTT',
+            '',
+            'NOTE comentario --> no es un cue',
+            '',
+            '01:02.5 --> 01:04.000 align:start line:0',
+            'Segundo',
+            '',
+            'intro',
+            '00:00:00.000 --> 00:00:01.000',
+            'Primero',
+            '',
+            '00:00:05.000 --> 00:00:04.000',
+            'Al revés'
+        ].join('\n')
+
+        expect(parseSubtitles(vtt)).toEqual([
+            { start: 0, end: 1, text: 'Primero' },
+            { start: 62.5, end: 64, text: 'Segundo' }
+        ])
+    })
+})
+
+describe('shiftCues', () => {
+    const cues = [
+        { start: 0, end: 2, text: 'a' },
+        { start: 3, end: 5, text: 'b' },
+        { start: 6, end: 8, text: 'c' }
+    ]
+
+    it('should shift the cues and trim them to the window', () => {
+        expect(shiftCues(cues, 1, 2, 7)).toEqual([
+            { start: 2, end: 3, text: 'a' },
+            { start: 4, end: 6, text: 'b' }
+        ])
+        expect(shiftCues(cues, -4, 0, null)).toEqual([
+            { start: 0, end: 1, text: 'b' },
+            { start: 2, end: 4, text: 'c' }
+        ])
+    })
+})
+
+describe('formatSrt', () => {
+    it('should number the cues and format their times', () => {
+        expect(formatSrt([{ start: 3725.5, end: 3726, text: 'Hola' }, { start: 0, end: 0.0004, text: 'x' }])).toBe(
+            '1\n01:02:05,500 --> 01:02:06,000\nHola\n\n2\n00:00:00,000 --> 00:00:00,000\nx\n'
+        )
+    })
+})
+
+describe('toAssColor', () => {
+    it('should convert named and hex colors to &HAABBGGRR', () => {
+        expect(toAssColor('white')).toBe('&H00FFFFFF')
+        expect(toAssColor('#FFCC00')).toBe('&H0000CCFF')
+        expect(toAssColor('0x336699@0.5')).toBe('&H80996633')
+        expect(toAssColor('black@0')).toBe('&HFF000000')
+    })
+
+    it('should return null for colors it does not know', () => {
+        for (const color of ['orange', '#fff', 'white@2', 'white@x']) {
+            expect(toAssColor(color)).toBeNull()
+        }
+    })
+})
+
+describe('buildSubtitleForceStyle', () => {
+    const style: SubtitleStyle = {
+        fontSize: 36,
+        color: '&H00FFFFFF',
+        outlineColor: '&H00000000',
+        outline: 2,
+        backgroundColor: null,
+        position: 'bottom',
+        margin: 36
+    }
+
+    it('should convert the canvas px to the libass scale', () => {
+        expect(buildSubtitleForceStyle(style, 720)).toBe(
+            'FontSize=14.4,PrimaryColour=&H00FFFFFF,Alignment=2,MarginV=14.4,BorderStyle=1,OutlineColour=&H00000000,Outline=0.8'
+        )
+    })
+
+    it('should draw a box with the background color and use the font family', () => {
+        expect(buildSubtitleForceStyle({ ...style, font: 'Lato Light', backgroundColor: '&H80000000', position: 'top' }, 1080)).toBe(
+            'FontName=Lato Light,FontSize=9.6,PrimaryColour=&H00FFFFFF,Alignment=8,MarginV=9.6,BorderStyle=3,OutlineColour=&H80000000,Outline=0.53'
+        )
+    })
+})
+
+describe('readFontFamilyName', () => {
+    it('should prefer the Windows name, then Unicode, then Macintosh', () => {
+        expect(readFontFamilyName(buildFont([
+            { platformId: 1, value: Buffer.from('Mac Name', 'latin1') },
+            { platformId: 0, value: utf16be('Unicode Name') },
+            { platformId: 3, value: utf16be('Lato Light') }
+        ]))).toBe('Lato Light')
+        expect(readFontFamilyName(buildFont([{ platformId: 1, value: Buffer.from('Mac Name', 'latin1') }]))).toBe('Mac Name')
+    })
+
+    it('should read the first font of a collection', () => {
+        expect(readFontFamilyName(buildFont([{ platformId: 3, value: utf16be('Source Code Pro') }], true))).toBe('Source Code Pro')
+    })
+
+    it('should return null for files that are not fonts', () => {
+        expect(readFontFamilyName(Buffer.from('not a font'))).toBeNull()
+        expect(readFontFamilyName(buildFont([]))).toBeNull()
+    })
+})
+
+describe('loadSubtitleFonts', () => {
+    const { FONTS_DIR } = ENV
+    let fontsDir: string
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined)
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined)
+        fontsDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'fonts-'))
+        ENV.FONTS_DIR = fontsDir
+    })
+
+    afterEach(async () => {
+        ENV.FONTS_DIR = FONTS_DIR
+        await fs.promises.rm(fontsDir, { recursive: true, force: true })
+        jest.restoreAllMocks()
+    })
+
+    const track = (fontFile: string): { assetId: string; style: SubtitleStyle } => ({
+        assetId: 's',
+        style: {
+            fontFile,
+            fontSize: 36,
+            color: '&H00FFFFFF',
+            outlineColor: '&H00000000',
+            outline: 2,
+            backgroundColor: null,
+            position: 'bottom',
+            margin: 36
+        }
+    })
+
+    it('should use the family name read from the font file', async () => {
+        await fs.promises.writeFile(path.join(fontsDir, 'Lato-Light.ttf'), buildFont([{ platformId: 3, value: utf16be('Lato Light') }]))
+        const tracks = [track('Lato-Light.ttf')]
+        const warn = jest.fn()
+
+        await loadSubtitleFonts(tracks, warn)
+
+        expect(tracks[0].style).toMatchObject({ font: 'Lato Light', fontFile: 'Lato-Light.ttf' })
+        expect(warn).not.toHaveBeenCalled()
+    })
+
+    it('should fall back to the default font when the file is missing or its family is not allowed', async () => {
+        await fs.promises.writeFile(path.join(fontsDir, 'Quote.ttf'), buildFont([{ platformId: 3, value: utf16be("It's,Bad") }]))
+        const tracks = [track('Missing.ttf'), track('Quote.ttf')]
+        const warn = jest.fn()
+
+        await loadSubtitleFonts(tracks, warn)
+
+        expect(tracks.map(({ style }) => [style.font, style.fontFile])).toEqual([[undefined, undefined], [undefined, undefined]])
+        expect(warn.mock.calls).toEqual([
+            ["La fuente 'Missing.ttf' de los subtítulos s no se pudo usar; se usará la fuente por defecto."],
+            ["La fuente 'Quote.ttf' de los subtítulos s no se pudo usar; se usará la fuente por defecto."]
+        ])
+    })
+})